@@ -0,0 +1,83 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Component, input } from '@angular/core';
+import { AbstractControl } from '@angular/forms';
+import { FormErrorsPipe } from '../pipe/form-errors';
+
+/**
+ * Displays the validation messages of a form control, formatted by the `ValidationMessageRegistry`.
+ *
+ * By default the messages are shown once the control has been touched, so that pristine forms stay clean.
+ *
+ * @example
+ * ```html
+ * <input type="number" [formControl]="price">
+ * <control-errors [control]="price" />
+ * <control-errors [control]="form" showWhen="always" />
+ * ```
+ */
+@Component({
+    selector: 'control-errors',
+    standalone: true,
+    imports: [FormErrorsPipe],
+    template: `
+        @if (isVisible()) {
+            @for (message of control().errors | formErrors; track $index) {
+                <div class="control-error" role="alert">{{ message }}</div>
+            }
+        }
+    `
+})
+export class ControlErrorsComponent {
+
+    /**
+     * The control whose errors are displayed.
+     */
+    readonly control = input.required<AbstractControl>();
+
+    /**
+     * When the messages are shown:
+     * - `'touched'` = after the control has been touched (default),
+     * - `'dirty'` = after the value has been changed,
+     * - `'always'` = as soon as the control is invalid.
+     */
+    readonly showWhen = input<'touched' | 'dirty' | 'always'>('touched');
+
+    isVisible(): boolean {
+        const control = this.control();
+        if (!control.invalid) {
+            return false;
+        }
+
+        switch (this.showWhen()) {
+            case 'touched':
+                return control.touched;
+            case 'dirty':
+                return control.dirty;
+            case 'always':
+                return true;
+        }
+    }
+}
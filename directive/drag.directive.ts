@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Directive, ElementRef, inject, input, output } from '@angular/core';
+import { PointerTrackerDirective, TrackedPointer } from './pointer-tracker.directive';
+
+/**
+ * The event emitted by the {@link DragDirective} outputs.
+ */
+export interface DragGestureEvent {
+
+    /**
+     * The underlying pointer event.
+     */
+    readonly event: PointerEvent;
+
+    /**
+     * The horizontal distance in pixels from where the pointer went down.
+     */
+    readonly deltaX: number;
+
+    /**
+     * The vertical distance in pixels from where the pointer went down.
+     */
+    readonly deltaY: number;
+
+    /**
+     * The horizontal distance in pixels since the previous drag event.
+     */
+    readonly movementX: number;
+
+    /**
+     * The vertical distance in pixels since the previous drag event.
+     */
+    readonly movementY: number;
+
+    /**
+     * Whether the drag ended because the pointer was cancelled rather than released.
+     * Always `false` for `dragStart` and `dragMove`.
+     */
+    readonly cancelled: boolean;
+}
+
+/**
+ * A directive that reports drag gestures with their deltas.
+ * A drag starts once the pointer moves beyond the threshold, so pure clicks never emit drag events.
+ * The pointer is captured by the host element from pointer down, so a fast drag keeps being reported
+ * when the pointer leaves the element, even before the threshold is exceeded.
+ *
+ * The host gets `touch-action: none` by default (see `dragTouchAction`), otherwise the browser
+ * would take over touch moves to scroll the page and cancel the drag.
+ *
+ * @example
+ * ```html
+ * <div (dragStart)="onStart($event)" (dragMove)="onMove($event)" (dragEnd)="onEnd($event)">Drag me</div>
+ * ```
+ */
+@Directive({
+    selector: '[dragStart],[dragMove],[dragEnd]',
+    host: {
+        '[style.touch-action]': 'dragTouchAction()'
+    }
+})
+export class DragDirective extends PointerTrackerDirective {
+
+    /**
+     * The movement threshold in pixels before the interaction is considered a drag.
+     * Default value is 4 pixels.
+     */
+    readonly dragThreshold = input(4);
+
+    /**
+     * The `touch-action` of the host. Default value is `'none'`;
+     * use e.g. `'pan-y'` to keep vertical scrolling on touch screens, for horizontal drags only.
+     */
+    readonly dragTouchAction = input('none');
+
+    /**
+     * Output event that emits when the pointer moves beyond the threshold.
+     */
+    readonly dragStart = output<DragGestureEvent>();
+
+    /**
+     * Output event that emits on every pointer move after the drag has started.
+     */
+    readonly dragMove = output<DragGestureEvent>();
+
+    /**
+     * Output event that emits when the pointer is released or cancelled after the drag has started.
+     */
+    readonly dragEnd = output<DragGestureEvent>();
+
+    private readonly elementRef = inject<ElementRef<Element>>(ElementRef);
+
+    /**
+     * Whether the drag of the tracked pointer has started.
+     */
+    private dragging = false;
+
+    /**
+     * The X coordinate of the previous drag event.
+     */
+    private prevX = 0;
+
+    /**
+     * The Y coordinate of the previous drag event.
+     */
+    private prevY = 0;
+
+    /**
+     * Resets the drag state and captures the pointer when a new interaction starts.
+     */
+    protected override onTrackStart(pointer: TrackedPointer): void {
+        this.elementRef.nativeElement.setPointerCapture?.(pointer.pointerId);
+        this.dragging = false;
+        this.prevX = pointer.startX;
+        this.prevY = pointer.startY;
+    }
+
+    /**
+     * Starts the drag once the threshold is exceeded, then reports every move.
+     */
+    protected override onTrackMove(pointer: TrackedPointer, event: PointerEvent): void {
+        if (this.dragging) {
+            this.dragMove.emit(this.createEvent(pointer, event, false));
+            return;
+        }
+
+        if (this.exceedsThreshold(pointer, this.dragThreshold())) {
+            this.dragging = true;
+            this.dragStart.emit(this.createEvent(pointer, event, false));
+        }
+    }
+
+    /**
+     * Ends the drag when the pointer is released.
+     */
+    protected override onTrackEnd(pointer: TrackedPointer, event: PointerEvent): void {
+        this.finish(pointer, event, false);
+    }
+
+    /**
+     * Ends the drag when the pointer is cancelled.
+     */
+    protected override onTrackCancel(pointer: TrackedPointer, event: PointerEvent): void {
+        this.finish(pointer, event, true);
+    }
+
+    private finish(pointer: TrackedPointer, event: PointerEvent, cancelled: boolean): void {
+        if (!this.dragging) {
+            return;
+        }
+
+        this.dragging = false;
+        this.dragEnd.emit(this.createEvent(pointer, event, cancelled));
+    }
+
+    private createEvent(pointer: TrackedPointer, event: PointerEvent, cancelled: boolean): DragGestureEvent {
+        const dragEvent: DragGestureEvent = {
+            event,
+            deltaX: pointer.lastX - pointer.startX,
+            deltaY: pointer.lastY - pointer.startY,
+            movementX: pointer.lastX - this.prevX,
+            movementY: pointer.lastY - this.prevY,
+            cancelled
+        };
+        this.prevX = pointer.lastX;
+        this.prevY = pointer.lastY;
+        return dragEvent;
+    }
+
+}
@@ -0,0 +1,109 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DestroyRef, Directive, inject, input, output } from '@angular/core';
+import { PointerTrackerDirective, TrackedPointer } from './pointer-tracker.directive';
+
+/**
+ * A directive that detects long presses.
+ * Emits once the pointer has been held down for the configured duration without moving beyond the threshold.
+ *
+ * @example
+ * ```html
+ * <div (longPress)="openContextMenu($event)" [longPressDuration]="800">Hold me</div>
+ * ```
+ */
+@Directive({
+    selector: '[longPress]'
+})
+export class LongPressDirective extends PointerTrackerDirective {
+
+    /**
+     * How long, in milliseconds, the pointer has to be held down. Default value is 500 ms.
+     */
+    readonly longPressDuration = input(500);
+
+    /**
+     * The movement threshold in pixels. Moving further cancels the long press.
+     * Default value is 4 pixels.
+     */
+    readonly longPressThreshold = input(4);
+
+    /**
+     * Output event that emits the pointer down event once the press has been held long enough.
+     */
+    readonly longPress = output<PointerEvent>();
+
+    /**
+     * The pending timer of the press in progress.
+     */
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor() {
+        super();
+        inject(DestroyRef).onDestroy(() => this.clearTimer());
+    }
+
+    /**
+     * Starts the timer of the long press.
+     */
+    protected override onTrackStart(_: TrackedPointer, event: PointerEvent): void {
+        this.clearTimer();
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.longPress.emit(event);
+        }, this.longPressDuration());
+    }
+
+    /**
+     * Cancels the long press if the movement exceeds the threshold.
+     */
+    protected override onTrackMove(pointer: TrackedPointer): void {
+        if (this.exceedsThreshold(pointer, this.longPressThreshold())) {
+            this.clearTimer();
+        }
+    }
+
+    /**
+     * Cancels the long press if the pointer is released too early.
+     */
+    protected override onTrackEnd(): void {
+        this.clearTimer();
+    }
+
+    /**
+     * Cancels the long press if the pointer is cancelled.
+     */
+    protected override onTrackCancel(): void {
+        this.clearTimer();
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+}
@@ -0,0 +1,249 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Directive } from '@angular/core';
+
+/**
+ * How the distance travelled by a pointer is measured against a threshold:
+ * - `'chebyshev'` = the largest movement along a single axis (`dx > threshold || dy > threshold`),
+ * - `'euclidean'` = the straight-line distance (`sqrt(dx² + dy²) > threshold`).
+ */
+export type PointerDistanceMetric = 'chebyshev' | 'euclidean';
+
+/**
+ * The state of the pointer currently tracked by a {@link PointerTrackerDirective}.
+ */
+export interface TrackedPointer {
+
+    /**
+     * The `pointerId` of the tracked pointer.
+     */
+    readonly pointerId: number;
+
+    /**
+     * The X coordinate where the pointer down event started.
+     */
+    readonly startX: number;
+
+    /**
+     * The Y coordinate where the pointer down event started.
+     */
+    readonly startY: number;
+
+    /**
+     * The timestamp (`event.timeStamp`) of the pointer down event.
+     */
+    readonly startTime: number;
+
+    /**
+     * The X coordinate of the latest pointer event.
+     */
+    lastX: number;
+
+    /**
+     * The Y coordinate of the latest pointer event.
+     */
+    lastY: number;
+
+    /**
+     * The timestamp (`event.timeStamp`) of the latest pointer event.
+     */
+    lastTime: number;
+}
+
+/**
+ * Base class of the pointer gesture directives (`pureClick`, `longPress`, `pureDoubleClick`, `drag*`, `swipe`).
+ *
+ * Tracks a single pointer from `pointerdown` to `pointerup` by its `pointerId`, so that additional
+ * touches on a multi-touch screen do not interfere with the gesture in progress.
+ * A `pointercancel` or `lostpointercapture` of the tracked pointer aborts the gesture, and so does
+ * a `pointerleave` without pointer capture, since the matching `pointerup` would not reach the host.
+ *
+ * Subclasses react to the gesture lifecycle by overriding the `onTrack*` hooks.
+ */
+@Directive({
+    host: {
+        '(pointerdown)': 'onPointerDown($event)',
+        '(pointermove)': 'onPointerMove($event)',
+        '(pointerup)': 'onPointerUp($event)',
+        '(pointercancel)': 'onPointerCancel($event)',
+        '(pointerleave)': 'onPointerLeave($event)',
+        '(lostpointercapture)': 'onPointerCancel($event)'
+    }
+})
+export abstract class PointerTrackerDirective {
+
+    /**
+     * The pointer currently being tracked, or `null` if there is no gesture in progress.
+     */
+    protected pointer: TrackedPointer | null = null;
+
+    /**
+     * Handles the pointer down event, starting to track the pointer if no other pointer is tracked.
+     * A pointer down of the tracked pointer means its release was missed, so the stale gesture is aborted first.
+     * @param event - The pointer down event
+     */
+    onPointerDown(event: PointerEvent): void {
+        if (this.pointer?.pointerId === event.pointerId) {
+            this.onPointerCancel(event);
+        }
+        if (this.pointer || !this.acceptsPointer(event)) {
+            return;
+        }
+
+        this.pointer = {
+            pointerId: event.pointerId,
+            startX: event.clientX,
+            startY: event.clientY,
+            startTime: event.timeStamp,
+            lastX: event.clientX,
+            lastY: event.clientY,
+            lastTime: event.timeStamp
+        };
+        this.onTrackStart(this.pointer, event);
+    }
+
+    /**
+     * Handles the pointer move event of the tracked pointer.
+     * @param event - The pointer move event
+     */
+    onPointerMove(event: PointerEvent): void {
+        const pointer = this.update(event);
+        if (pointer) {
+            this.onTrackMove(pointer, event);
+        }
+    }
+
+    /**
+     * Handles the pointer up event of the tracked pointer, ending the gesture.
+     * @param event - The pointer up event
+     */
+    onPointerUp(event: PointerEvent): void {
+        const pointer = this.update(event);
+        if (pointer) {
+            this.pointer = null;
+            this.onTrackEnd(pointer, event);
+        }
+    }
+
+    /**
+     * Handles the pointer cancel and lost pointer capture events of the tracked pointer, aborting the gesture.
+     * @param event - The pointer cancel or lost pointer capture event
+     */
+    onPointerCancel(event: PointerEvent): void {
+        const pointer = this.pointer;
+        if (pointer && pointer.pointerId === event.pointerId) {
+            this.pointer = null;
+            this.onTrackCancel(pointer, event);
+        }
+    }
+
+    /**
+     * Handles the pointer leave event of the tracked pointer, aborting the gesture unless the host captured
+     * the pointer (explicitly, or implicitly for touch), in which case the gesture goes on outside the host.
+     * @param event - The pointer leave event
+     */
+    onPointerLeave(event: PointerEvent): void {
+        const host = event.currentTarget as Element | null;
+        if (!host?.hasPointerCapture?.(event.pointerId)) {
+            this.onPointerCancel(event);
+        }
+    }
+
+    /**
+     * Decides whether a pointer down event may start a gesture, e.g. based on its button or pointer type.
+     * Accepts every pointer by default.
+     */
+    protected acceptsPointer(event: PointerEvent): boolean {
+        return true;
+    }
+
+    /**
+     * Called when a pointer starts being tracked.
+     */
+    protected onTrackStart(pointer: TrackedPointer, event: PointerEvent): void {
+        // no-op by default
+    }
+
+    /**
+     * Called when the tracked pointer moves.
+     */
+    protected onTrackMove(pointer: TrackedPointer, event: PointerEvent): void {
+        // no-op by default
+    }
+
+    /**
+     * Called when the tracked pointer is released.
+     */
+    protected onTrackEnd(pointer: TrackedPointer, event: PointerEvent): void {
+        // no-op by default
+    }
+
+    /**
+     * Called when the tracked pointer is cancelled by the browser or loses its pointer capture.
+     */
+    protected onTrackCancel(pointer: TrackedPointer, event: PointerEvent): void {
+        // no-op by default
+    }
+
+    /**
+     * Checks whether the pointer has moved beyond the threshold from its starting position.
+     *
+     * @param pointer - The tracked pointer
+     * @param threshold - The movement threshold in pixels
+     * @param metric - How the distance is measured (default: `'chebyshev'`, i.e. on either axis)
+     * @returns `true` if the movement exceeds the threshold.
+     */
+    protected exceedsThreshold(
+        pointer: TrackedPointer,
+        threshold: number,
+        metric: PointerDistanceMetric = 'chebyshev'
+    ): boolean {
+        const dx = Math.abs(pointer.lastX - pointer.startX);
+        const dy = Math.abs(pointer.lastY - pointer.startY);
+
+        if (metric === 'euclidean') {
+            return Math.hypot(dx, dy) > threshold;
+        }
+        return dx > threshold || dy > threshold;
+    }
+
+    /**
+     * Records the latest position of the tracked pointer.
+     *
+     * @returns The tracked pointer, or `null` if the event belongs to another pointer.
+     */
+    private update(event: PointerEvent): TrackedPointer | null {
+        const pointer = this.pointer;
+        if (!pointer || pointer.pointerId !== event.pointerId) {
+            return null;
+        }
+
+        pointer.lastX = event.clientX;
+        pointer.lastY = event.clientY;
+        pointer.lastTime = event.timeStamp;
+        return pointer;
+    }
+
+}
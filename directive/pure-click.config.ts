@@ -0,0 +1,122 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { InjectionToken, Provider } from '@angular/core';
+import { PointerDistanceMetric } from './pointer-tracker.directive';
+
+/**
+ * Configuration of the {@link PureClickDirective}.
+ */
+export interface PureClickConfig {
+
+    /**
+     * The default movement threshold in pixels. Can be overridden per element via the `threshold` input.
+     */
+    threshold: number;
+
+    /**
+     * How the movement is measured against the threshold.
+     */
+    metric: PointerDistanceMetric;
+
+    /**
+     * The maximum duration in milliseconds between pointer down and pointer up.
+     * Longer presses are not considered clicks.
+     */
+    maxDurationMs: number;
+
+    /**
+     * The `PointerEvent.button` values that may trigger a click (`0` = primary, `1` = middle, `2` = secondary).
+     * If `null`, every button is accepted.
+     */
+    buttons: readonly number[] | null;
+
+    /**
+     * The `PointerEvent.pointerType` values that may trigger a click (e.g. `'mouse'`, `'pen'`, `'touch'`).
+     * If `null`, every pointer type is accepted.
+     */
+    pointerTypes: readonly string[] | null;
+
+    /**
+     * Whether the host can be activated from the keyboard with `Enter` and `Space`. Disabled by default;
+     * can be overridden per host with `pureClickKeyboard`.
+     */
+    keyboard: boolean;
+
+    /**
+     * Whether `role="button"` and `tabindex="0"` are added to a host that is not natively interactive
+     * and does not define them already. Disabled by default, since it turns every host into a tab stop;
+     * can be overridden per host with `pureClickA11y`.
+     */
+    a11yAttributes: boolean;
+}
+
+/**
+ * The default {@link PureClickConfig}: a 4px per-axis threshold, no duration limit, every button and pointer type,
+ * keyboard activation and accessibility attributes disabled.
+ */
+export const DEFAULT_PURE_CLICK_CONFIG: PureClickConfig = {
+    threshold: 4,
+    metric: 'chebyshev',
+    maxDurationMs: Infinity,
+    buttons: null,
+    pointerTypes: null,
+    keyboard: false,
+    a11yAttributes: false
+};
+
+/**
+ * Injection token of the {@link PureClickConfig} used by the {@link PureClickDirective}.
+ * Use {@link providePureClick} to provide it.
+ */
+export const PURE_CLICK_CONFIG = new InjectionToken<PureClickConfig>('PURE_CLICK_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_PURE_CLICK_CONFIG
+});
+
+/**
+ * Provides the {@link PureClickConfig} for an application, a route or a component subtree.
+ * Options that are not specified fall back to {@link DEFAULT_PURE_CLICK_CONFIG}.
+ *
+ * @param config - The options to override.
+ * @returns The provider of {@link PURE_CLICK_CONFIG}.
+ *
+ * @example
+ * ```ts
+ * bootstrapApplication(AppComponent, {
+ *     providers: [
+ *         providePureClick({ threshold: 10, metric: 'euclidean', buttons: [0], maxDurationMs: 600 })
+ *     ]
+ * });
+ *
+ * // make every pureClick host a keyboard accessible button
+ * providePureClick({ keyboard: true, a11yAttributes: true });
+ * ```
+ */
+export function providePureClick(config: Partial<PureClickConfig>): Provider {
+    return {
+        provide: PURE_CLICK_CONFIG,
+        useValue: { ...DEFAULT_PURE_CLICK_CONFIG, ...config }
+    };
+}
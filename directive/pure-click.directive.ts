@@ -22,48 +22,88 @@
  * SOFTWARE.
  */
 
-import { Directive, output, signal } from '@angular/core';
+import { booleanAttribute, Directive, ElementRef, effect, inject, input, output, signal } from '@angular/core';
+import { PURE_CLICK_CONFIG } from './pure-click.config';
+import { PointerTrackerDirective, TrackedPointer } from './pointer-tracker.directive';
+
+/**
+ * The event emitted by the {@link PureClickDirective}.
+ * Use `source` to tell pointer activations from keyboard activations.
+ */
+export type PureClickEvent =
+    | { readonly source: 'pointer'; readonly event: PointerEvent }
+    | { readonly source: 'keyboard'; readonly event: KeyboardEvent };
+
+/**
+ * Elements that are natively focusable and announced as interactive,
+ * so they never receive an additional `role` or `tabindex`.
+ */
+const NATIVE_INTERACTIVE_SELECTOR = 'button, a[href], input, select, textarea, summary, [contenteditable]';
 
 /**
  * A directive that detects pure clicks by distinguishing between click and drag operations.
  * Emits a click event only when the pointer hasn't moved beyond the threshold during the pointer interaction.
  * 
+ * With `pureClickKeyboard` enabled, the host can also be activated from the keyboard: `Enter` emits on key down
+ * and `Space` on key up, like a native button. With `pureClickA11y` enabled, `role="button"` and `tabindex="0"`
+ * are added when they are missing, unless the host is a natively interactive element.
+ * Both are opt-in, per host or for every host with {@link providePureClick}, so existing hosts such as table rows
+ * do not become tab stops.
+ * Emission is suppressed while the host has `aria-disabled="true"` or `pureClickDisabled` is set.
+ * 
+ * The defaults can be configured with {@link providePureClick}.
+ * 
  * @example
  * ```html
  * <div (pureClick)="handlePureClick($event)">Click me</div>
+ * <div (pureClick)="handlePureClick($event)" [threshold]="10">Touch-friendly</div>
+ * <div (pureClick)="$event.source === 'keyboard' && focusNext()" [pureClickDisabled]="busy" pureClickKeyboard>Keyboard aware</div>
+ * <div (pureClick)="open()" pureClickKeyboard pureClickA11y>Accessible button</div>
  * ```
  */
 @Directive({
     selector: '[pureClick]',
     host: {
-        '(pointerdown)': 'onPointerDown($event)',
-        '(pointermove)': 'onPorinterMove($event)',
-        '(pointerup)': 'onPointerUp($event)' 
+        '(keydown)': 'onKeyDown($event)',
+        '(keyup)': 'onKeyUp($event)',
+        '(blur)': 'onBlur()'
     }
 })
-export class PureClickDirective {
+export class PureClickDirective extends PointerTrackerDirective {
+
+    private readonly config = inject(PURE_CLICK_CONFIG);
+
+    private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
 
     /**
      * The movement threshold in pixels. If the pointer moves more than this distance,
      * the interaction is considered a drag rather than a click.
-     * Default value is 4 pixels.
+     * Defaults to the configured threshold (4 pixels unless provided otherwise).
+     */
+    readonly threshold = input(this.config.threshold);
+
+    /**
+     * Suppresses emission while `true`.
      */
-    readonly threshold = signal(4);
+    readonly pureClickDisabled = input(false, { transform: booleanAttribute });
 
     /**
-     * Output event that emits when a pure click is detected (pointer up without significant movement).
+     * Whether the host can be activated from the keyboard with `Enter` and `Space`.
+     * Defaults to the configured `keyboard` option (disabled unless provided otherwise).
      */
-    readonly pureClick = output<PointerEvent>();
+    readonly pureClickKeyboard = input(this.config.keyboard, { transform: booleanAttribute });
 
     /**
-     * The X coordinate where the pointer down event started.
+     * Whether `role="button"` and `tabindex="0"` are added to the host when missing.
+     * Defaults to the configured `a11yAttributes` option (disabled unless provided otherwise).
      */
-    private startX: number = 0;
+    readonly pureClickA11y = input(this.config.a11yAttributes, { transform: booleanAttribute });
 
     /**
-     * The Y coordinate where the pointer down event started.
+     * Output event that emits when a pure click is detected (pointer up without significant movement)
+     * or when the host is activated from the keyboard.
      */
-    private startY: number = 0
+    readonly pureClick = output<PureClickEvent>();
 
     /**
      * Flag indicating whether the pointer has moved beyond the threshold.
@@ -71,39 +111,133 @@ export class PureClickDirective {
     private readonly moved = signal(false);
 
     /**
-     * Handles the pointer down event, recording the starting position.
-     * @param event - The pointer down event
+     * Flag indicating whether `Space` was pressed on the host and is waiting for its key up.
+     */
+    private spacePressed = false;
+
+    /**
+     * The attributes added by {@link applyA11yAttributes}, removed again if `pureClickA11y` is turned off.
+     */
+    private addedAttributes: string[] = [];
+
+    constructor() {
+        super();
+        effect(() => this.applyA11yAttributes(this.pureClickA11y()));
+    }
+
+    /**
+     * Handles the key down event, emitting on `Enter` and preparing the activation on `Space`.
+     * @param event - The key down event
+     */
+    onKeyDown(event: KeyboardEvent): void {
+        if (!this.pureClickKeyboard() || event.target !== this.elementRef.nativeElement) {
+            return;
+        }
+
+        if (event.key === 'Enter') {
+            if (!event.repeat) {
+                this.emit({ source: 'keyboard', event });
+            }
+        } else if (event.key === ' ') {
+            // prevent the page from scrolling, the activation happens on key up
+            event.preventDefault();
+            this.spacePressed = true;
+        }
+    }
+
+    /**
+     * Handles the key up event, emitting on `Space`.
+     * @param event - The key up event
+     */
+    onKeyUp(event: KeyboardEvent): void {
+        if (event.key !== ' ' || !this.spacePressed) {
+            return;
+        }
+
+        this.spacePressed = false;
+        this.emit({ source: 'keyboard', event });
+    }
+
+    /**
+     * Forgets a pending `Space` activation when the host loses focus before the key up.
+     */
+    onBlur(): void {
+        this.spacePressed = false;
+    }
+
+    /**
+     * Only accepts the configured buttons and pointer types.
      */
-    onPointerDown(event: PointerEvent): void {
-        this.startX = event.clientX;
-        this.startY = event.clientY;
+    protected override acceptsPointer(event: PointerEvent): boolean {
+        const { buttons, pointerTypes } = this.config;
+        return (buttons === null || buttons.includes(event.button))
+            && (pointerTypes === null || pointerTypes.includes(event.pointerType));
+    }
+
+    /**
+     * Resets the movement flag when a new interaction starts.
+     */
+    protected override onTrackStart(): void {
         this.moved.set(false);
     }
 
     /**
-     * Handles the pointer move event, checking if the movement exceeds the threshold.
-     * @param event - The pointer move event
+     * Checks if the movement exceeds the threshold.
      */
-    onPorinterMove(event: PointerEvent): void {
+    protected override onTrackMove(pointer: TrackedPointer): void {
         if (this.moved()) {
             return;
         }
 
-        const dx = Math.abs(event.clientX - this.startX);
-        const dy = Math.abs(event.clientY - this.startY);
-
-        if (dx > this.threshold() || dy > this.threshold()) {
+        if (this.exceedsThreshold(pointer, this.threshold(), this.config.metric)) {
             this.moved.set(true);
         }
     }
 
     /**
-     * Handles the pointer up event, emitting the pureClick event if no significant movement occurred.
-     * @param event - The pointer up event
+     * Emits the pureClick event if no significant movement occurred within the maximum duration.
+     */
+    protected override onTrackEnd(pointer: TrackedPointer, event: PointerEvent): void {
+        if (this.moved() || this.exceedsThreshold(pointer, this.threshold(), this.config.metric)) {
+            return;
+        }
+        if (pointer.lastTime - pointer.startTime > this.config.maxDurationMs) {
+            return;
+        }
+        this.emit({ source: 'pointer', event });
+    }
+
+    /**
+     * Emits the pureClick event unless the directive or the host is disabled.
+     */
+    private emit(clickEvent: PureClickEvent): void {
+        const host = this.elementRef.nativeElement;
+        if (this.pureClickDisabled() || host.getAttribute('aria-disabled') === 'true') {
+            return;
+        }
+        this.pureClick.emit(clickEvent);
+    }
+
+    /**
+     * Adds `role="button"` and `tabindex="0"` to a host that is not natively interactive, unless already present,
+     * or removes the attributes it added when disabled.
      */
-    onPointerUp(event: PointerEvent): void {
-        if (!this.moved()) {
-            this.pureClick.emit(event);
+    private applyA11yAttributes(enabled: boolean): void {
+        const host = this.elementRef.nativeElement;
+        if (!enabled) {
+            this.addedAttributes.forEach(name => host.removeAttribute(name));
+            this.addedAttributes = [];
+            return;
+        }
+        if (typeof host.matches !== 'function' || host.matches(NATIVE_INTERACTIVE_SELECTOR)) {
+            return;
+        }
+
+        for (const [name, value] of [['role', 'button'], ['tabindex', '0']]) {
+            if (!host.hasAttribute(name)) {
+                host.setAttribute(name, value);
+                this.addedAttributes.push(name);
+            }
         }
     }
 
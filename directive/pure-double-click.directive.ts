@@ -0,0 +1,94 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Directive, input, output } from '@angular/core';
+import { PointerTrackerDirective, TrackedPointer } from './pointer-tracker.directive';
+
+/**
+ * A directive that detects double clicks made of two pure clicks.
+ * Unlike the native `dblclick` event, a click is ignored if the pointer moved beyond the threshold,
+ * and the second click has to land close to the first one.
+ *
+ * @example
+ * ```html
+ * <div (pureDoubleClick)="zoomIn($event)">Double click me</div>
+ * ```
+ */
+@Directive({
+    selector: '[pureDoubleClick]'
+})
+export class PureDoubleClickDirective extends PointerTrackerDirective {
+
+    /**
+     * The maximum time in milliseconds between the two clicks. Default value is 300 ms.
+     */
+    readonly doubleClickInterval = input(300);
+
+    /**
+     * The movement threshold in pixels, applied to each click and to the distance between both clicks.
+     * Default value is 4 pixels.
+     */
+    readonly doubleClickThreshold = input(4);
+
+    /**
+     * Output event that emits the pointer up event of the second click.
+     */
+    readonly pureDoubleClick = output<PointerEvent>();
+
+    /**
+     * The first click of a potential double click.
+     */
+    private firstClick: { x: number; y: number; time: number } | null = null;
+
+    /**
+     * Emits the double click if this pure click completes one, otherwise remembers it as the first click.
+     */
+    protected override onTrackEnd(pointer: TrackedPointer, event: PointerEvent): void {
+        const threshold = this.doubleClickThreshold();
+        if (this.exceedsThreshold(pointer, threshold)) {
+            this.firstClick = null;
+            return;
+        }
+
+        const first = this.firstClick;
+        if (first
+            && pointer.lastTime - first.time <= this.doubleClickInterval()
+            && Math.abs(pointer.lastX - first.x) <= threshold
+            && Math.abs(pointer.lastY - first.y) <= threshold) {
+            this.firstClick = null;
+            this.pureDoubleClick.emit(event);
+            return;
+        }
+
+        this.firstClick = { x: pointer.lastX, y: pointer.lastY, time: pointer.lastTime };
+    }
+
+    /**
+     * Forgets the first click if the pointer is cancelled.
+     */
+    protected override onTrackCancel(): void {
+        this.firstClick = null;
+    }
+
+}
@@ -0,0 +1,149 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Directive, effect, EmbeddedViewRef, inject, input, TemplateRef, ViewContainerRef } from '@angular/core';
+import { NumberRange } from '../pipe/range';
+
+/**
+ * The template context of the {@link RangeDirective}.
+ */
+export interface RangeContext {
+
+    /**
+     * The value of the range at this position.
+     */
+    $implicit: number;
+
+    /**
+     * The position of the value in the whole range.
+     */
+    index: number;
+
+    /**
+     * The number of values in the whole range.
+     */
+    count: number;
+
+    first: boolean;
+    last: boolean;
+    even: boolean;
+    odd: boolean;
+}
+
+/**
+ * A window of positions to render, compatible with the `ListRange` emitted by
+ * `CdkVirtualScrollViewport.renderedRangeStream`. `end` is exclusive.
+ */
+export interface RangeWindow {
+    start: number;
+    end: number;
+}
+
+/**
+ * A structural directive rendering its template for every value of a lazy {@link NumberRange},
+ * without allocating an array of the values.
+ *
+ * With a `window`, only the positions within the window are rendered, so that huge ranges
+ * can be paired with a virtual scrolling viewport. Views are reused when the range or the window changes.
+ *
+ * @example
+ * ```html
+ * <li *range="let i to 5">{{ i }}</li>                                  <!-- 0, 1, 2, 3, 4 -->
+ * <li *range="let i from 10 to 1 by -2; let last = last">{{ i }}</li>   <!-- 10, 8, 6, 4, 2 -->
+ * <div *range="let i from 0 to 1e6 by 2; window: renderedRange()">{{ i }}</div>
+ * ```
+ */
+@Directive({
+    selector: '[range]'
+})
+export class RangeDirective {
+
+    /**
+     * The first value of the range (default: 0).
+     */
+    readonly rangeFrom = input(0);
+
+    /**
+     * The exclusive end of the range.
+     */
+    readonly rangeTo = input.required<number>();
+
+    /**
+     * The step of the range (default: 1).
+     */
+    readonly rangeBy = input(1);
+
+    /**
+     * The positions to render. Renders the whole range if `null` (default).
+     */
+    readonly rangeWindow = input<RangeWindow | null>(null);
+
+    private readonly templateRef = inject<TemplateRef<RangeContext>>(TemplateRef);
+    private readonly viewContainer = inject(ViewContainerRef);
+
+    constructor() {
+        effect(() => {
+            const range = new NumberRange(this.rangeFrom(), this.rangeTo(), this.rangeBy());
+            this.render(range, this.rangeWindow());
+        });
+    }
+
+    static ngTemplateContextGuard(_: RangeDirective, context: unknown): context is RangeContext {
+        return true;
+    }
+
+    /**
+     * Renders the positions of the window, updating the existing views in place
+     * and only creating or destroying the difference.
+     */
+    private render(range: NumberRange, window: RangeWindow | null): void {
+        const start = Math.max(0, Math.min(window?.start ?? 0, range.length));
+        const end = Math.max(start, Math.min(window?.end ?? range.length, range.length));
+        const size = end - start;
+
+        while (this.viewContainer.length > size) {
+            this.viewContainer.remove();
+        }
+
+        for (let offset = 0; offset < size; offset++) {
+            const index = start + offset;
+            const context: RangeContext = {
+                $implicit: range.at(index)!,
+                index,
+                count: range.length,
+                first: index === 0,
+                last: index === range.length - 1,
+                even: index % 2 === 0,
+                odd: index % 2 === 1
+            };
+
+            const view = this.viewContainer.get(offset) as EmbeddedViewRef<RangeContext> | null;
+            if (view) {
+                Object.assign(view.context, context);
+            } else {
+                this.viewContainer.createEmbeddedView(this.templateRef, context);
+            }
+        }
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Directive, ElementRef, inject, input, output } from '@angular/core';
+import { PointerTrackerDirective, TrackedPointer } from './pointer-tracker.directive';
+
+/**
+ * The direction of a swipe gesture.
+ */
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * The event emitted by the {@link SwipeDirective}.
+ */
+export interface SwipeEvent {
+
+    /**
+     * The underlying pointer up event.
+     */
+    readonly event: PointerEvent;
+
+    /**
+     * The dominant direction of the swipe.
+     */
+    readonly direction: SwipeDirection;
+
+    /**
+     * The distance in pixels travelled along the dominant axis.
+     */
+    readonly distance: number;
+
+    /**
+     * The velocity in pixels per millisecond along the dominant axis.
+     */
+    readonly velocity: number;
+}
+
+/**
+ * A directive that detects swipe gestures.
+ * Emits when the pointer is released after travelling at least the minimum distance
+ * along its dominant axis at least as fast as the minimum velocity.
+ * The pointer is captured by the host element from pointer down, so a swipe may end outside of the element.
+ *
+ * The host gets `touch-action: none` by default (see `swipeTouchAction`), otherwise the browser
+ * would take over touch moves to scroll the page and cancel the swipe.
+ *
+ * @example
+ * ```html
+ * <div (swipe)="$event.direction === 'left' ? next() : previous()">Swipe me</div>
+ * ```
+ */
+@Directive({
+    selector: '[swipe]',
+    host: {
+        '[style.touch-action]': 'swipeTouchAction()'
+    }
+})
+export class SwipeDirective extends PointerTrackerDirective {
+
+    /**
+     * The minimum distance in pixels along the dominant axis. Default value is 30 pixels.
+     */
+    readonly swipeMinDistance = input(30);
+
+    /**
+     * The minimum velocity in pixels per millisecond along the dominant axis. Default value is 0.3.
+     */
+    readonly swipeMinVelocity = input(0.3);
+
+    /**
+     * The `touch-action` of the host. Default value is `'none'`;
+     * use e.g. `'pan-y'` to keep vertical scrolling on touch screens, for horizontal swipes only.
+     */
+    readonly swipeTouchAction = input('none');
+
+    /**
+     * Output event that emits when a swipe is detected.
+     */
+    readonly swipe = output<SwipeEvent>();
+
+    private readonly elementRef = inject<ElementRef<Element>>(ElementRef);
+
+    /**
+     * Captures the pointer, so that its release is received outside of the host.
+     */
+    protected override onTrackStart(pointer: TrackedPointer): void {
+        this.elementRef.nativeElement.setPointerCapture?.(pointer.pointerId);
+    }
+
+    /**
+     * Emits the swipe if the released pointer travelled far and fast enough.
+     */
+    protected override onTrackEnd(pointer: TrackedPointer, event: PointerEvent): void {
+        const dx = pointer.lastX - pointer.startX;
+        const dy = pointer.lastY - pointer.startY;
+        const horizontal = Math.abs(dx) >= Math.abs(dy);
+
+        const distance = horizontal ? Math.abs(dx) : Math.abs(dy);
+        const duration = Math.max(pointer.lastTime - pointer.startTime, 1);
+        const velocity = distance / duration;
+
+        if (distance < this.swipeMinDistance() || velocity < this.swipeMinVelocity()) {
+            return;
+        }
+
+        const direction: SwipeDirection = horizontal
+            ? (dx > 0 ? 'right' : 'left')
+            : (dy > 0 ? 'down' : 'up');
+
+        this.swipe.emit({ event, direction, distance, velocity });
+    }
+
+}
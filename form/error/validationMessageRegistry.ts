@@ -0,0 +1,194 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { inject, Injectable, InjectionToken, Provider } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+
+/**
+ * A validation message, either:
+ * - a template whose `{placeholders}` are resolved against the error payload (e.g. `'Must be at least {expected}'`,
+ *   nested values as `{expected.min}`, a non-object payload as `{value}`), or
+ * - a function receiving the error payload and key, e.g. to return an i18n string with `$localize`.
+ */
+export type ValidationMessage = string | ((error: any, key: string) => string);
+
+/**
+ * A map from error keys to validation messages.
+ */
+export type ValidationMessages = Record<string, ValidationMessage>;
+
+/**
+ * Human readable text of the comparison operators used by `numberValidator` and `fieldComparisonValidator`.
+ */
+const OPERATOR_TEXT: Record<string, string> = {
+    gt: 'greater than',
+    ge: 'greater than or equal to',
+    lt: 'less than',
+    le: 'less than or equal to',
+    eq: 'equal to',
+    ne: 'different from'
+};
+
+/**
+ * The default messages of the validators in `form/validator`.
+ */
+export const DEFAULT_VALIDATION_MESSAGES: ValidationMessages = {
+    // numberValidator
+    nullInput: 'A value is required',
+    numberValidator: ({ operator, expected }) => `Must be ${OPERATOR_TEXT[operator]} ${expected}`,
+
+    // minArrayLengthValidator
+    minArrayLength: 'Must contain at least {requiredLength} items',
+    invalidType: error => typeof error === 'string' ? error : 'Invalid type',
+
+    // fieldComparisonValidator
+    fieldComparison: ({ operator, otherPath }) => `Must be ${OPERATOR_TEXT[operator]} ${otherPath}`,
+
+    // validator builder (v)
+    required: 'This field is required',
+    type: 'Must be a valid {expected}',
+    gt: 'Must be greater than {expected}',
+    ge: 'Must be greater than or equal to {expected}',
+    lt: 'Must be less than {expected}',
+    le: 'Must be less than or equal to {expected}',
+    eq: 'Must be equal to {expected}',
+    ne: 'Must be different from {expected}',
+    between: 'Must be between {expected.min} and {expected.max}',
+    integer: 'Must be a whole number',
+    multipleOf: 'Must be a multiple of {expected}',
+    precision: 'Must have at most {expected} decimal places',
+    minLength: 'Must contain at least {expected} items',
+    maxLength: 'Must contain at most {expected} items',
+    unique: 'Must not contain duplicates'
+};
+
+/**
+ * Injection token of the application specific validation messages, merged over the defaults in the order provided.
+ * Use {@link provideValidationMessages} to provide it.
+ */
+export const VALIDATION_MESSAGES = new InjectionToken<ValidationMessages[]>('VALIDATION_MESSAGES');
+
+/**
+ * Provides validation messages that override or extend {@link DEFAULT_VALIDATION_MESSAGES}.
+ * Can be used several times, later providers take precedence.
+ *
+ * @param messages - The messages by error key.
+ * @returns The provider of {@link VALIDATION_MESSAGES}.
+ *
+ * @example
+ * ```ts
+ * bootstrapApplication(AppComponent, {
+ *     providers: [
+ *         provideValidationMessages({
+ *             required: $localize`Required`,
+ *             passwordMismatch: 'Passwords do not match'
+ *         })
+ *     ]
+ * });
+ * ```
+ */
+export function provideValidationMessages(messages: ValidationMessages): Provider {
+    return { provide: VALIDATION_MESSAGES, useValue: messages, multi: true };
+}
+
+/**
+ * Registry turning validation errors into human readable messages.
+ * Starts from {@link DEFAULT_VALIDATION_MESSAGES}, then applies the messages provided
+ * with {@link provideValidationMessages}. Messages can also be changed at runtime with `set()`.
+ */
+@Injectable({ providedIn: 'root' })
+export class ValidationMessageRegistry {
+
+    /**
+     * The message used for error keys without a registered message.
+     */
+    fallback: ValidationMessage = 'Invalid value';
+
+    private readonly messages = new Map<string, ValidationMessage>(Object.entries(DEFAULT_VALIDATION_MESSAGES));
+
+    constructor() {
+        const provided = inject(VALIDATION_MESSAGES, { optional: true }) ?? [];
+        for (const messages of provided) {
+            this.setAll(messages);
+        }
+    }
+
+    /**
+     * Registers or overrides the message of an error key.
+     */
+    set(key: string, message: ValidationMessage): void {
+        this.messages.set(key, message);
+    }
+
+    /**
+     * Registers or overrides the messages of several error keys.
+     */
+    setAll(messages: ValidationMessages): void {
+        for (const [key, message] of Object.entries(messages)) {
+            this.set(key, message);
+        }
+    }
+
+    /**
+     * Formats the message of a single error.
+     *
+     * @param key - The error key.
+     * @param error - The error payload.
+     * @returns The formatted message.
+     */
+    format(key: string, error: unknown): string {
+        const message = this.messages.get(key) ?? this.fallback;
+        return typeof message === 'function'
+            ? message(error, key)
+            : interpolate(message, error);
+    }
+
+    /**
+     * Formats the messages of all errors of a control, in the order of the error keys.
+     *
+     * @param errors - The errors of a control, e.g. `control.errors`.
+     * @returns The formatted messages, or an empty array if there is no error.
+     */
+    formatAll(errors: ValidationErrors | null | undefined): string[] {
+        if (!errors) {
+            return [];
+        }
+        return Object.entries(errors).map(([key, error]) => this.format(key, error));
+    }
+}
+
+/**
+ * Resolves the `{placeholders}` of a template against an error payload.
+ * Unresolved placeholders are replaced by an empty string.
+ */
+function interpolate(template: string, error: unknown): string {
+    const context: Record<string, unknown> = error !== null && typeof error === 'object'
+        ? { value: error, ...error }
+        : { value: error };
+
+    return template.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+        const resolved = path.split('.').reduce<any>((current, key) => current?.[key], context);
+        return resolved == null ? '' : String(resolved);
+    });
+}
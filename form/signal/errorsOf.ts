@@ -0,0 +1,88 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, Injector, Signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { AbstractControl, FormControlStatus, ValidationErrors } from '@angular/forms';
+import { map, startWith } from 'rxjs';
+
+/**
+ * The validation state of a reactive form control, exposed as signals.
+ */
+export interface ControlErrorSignals {
+
+    /**
+     * The errors of the control, or `null` if valid.
+     */
+    readonly errors: Signal<ValidationErrors | null>;
+
+    /**
+     * The status of the control.
+     */
+    readonly status: Signal<FormControlStatus>;
+
+    /**
+     * Whether the control is valid.
+     */
+    readonly valid: Signal<boolean>;
+
+    /**
+     * Whether an async validation is in progress.
+     */
+    readonly pending: Signal<boolean>;
+}
+
+/**
+ * Exposes the validation state of a reactive form control as signals,
+ * updated whenever the status of the control changes.
+ *
+ * Must be called in an injection context (e.g. a field initializer), unless an `injector` is provided.
+ *
+ * @param control - The control to observe.
+ * @param options - The injector to use outside of an injection context.
+ * @returns The signals of the control errors and status.
+ *
+ * @example
+ * ```ts
+ * readonly price = new FormControl<number | null>(null, numberValidator(0, 'ge'));
+ * readonly priceState = errorsOf(this.price);
+ * readonly priceHint = computed(() => this.priceState.errors()?.['numberValidator'] ? 'Too low' : '');
+ * ```
+ */
+export function errorsOf(control: AbstractControl, options?: { injector?: Injector }): ControlErrorSignals {
+    const state = toSignal(
+        control.statusChanges.pipe(
+            startWith(control.status),
+            map(status => ({ status, errors: control.errors }))
+        ),
+        { requireSync: true, injector: options?.injector }
+    );
+
+    return {
+        errors: computed(() => state().errors),
+        status: computed(() => state().status),
+        valid: computed(() => state().status === 'VALID'),
+        pending: computed(() => state().status === 'PENDING')
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, Signal } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+import { ValueValidatorFn } from '../validator/valueValidatorFn';
+
+/**
+ * Creates a computed validation result of a signal, using the same rules as the reactive form validators.
+ * The errors of every rule are merged into a single object, like `Validators.compose` does.
+ *
+ * @param source - The signal holding the value to validate.
+ * @param rules - The value rules, e.g. `numberRule(0, 'ge')` or `minArrayLengthRule(2)`.
+ * @returns A signal of the merged validation errors, or `null` if valid.
+ *
+ * @example
+ * ```ts
+ * readonly quantity = signal<number | null>(null);
+ * readonly quantityErrors = validateSignal(this.quantity, numberRule(0, 'gt'), numberRule(100, 'le'));
+ * readonly quantityValid = computed(() => this.quantityErrors() === null);
+ * ```
+ */
+export function validateSignal<T>(source: Signal<T>, ...rules: ValueValidatorFn<T>[]): Signal<ValidationErrors | null> {
+    return computed(() => {
+        const value = source();
+
+        let errors: ValidationErrors | null = null;
+        for (const rule of rules) {
+            const result = rule(value);
+            if (result) {
+                errors = { ...(errors ?? {}), ...result };
+            }
+        }
+        return errors;
+    });
+}
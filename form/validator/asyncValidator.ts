@@ -0,0 +1,149 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, signal, Signal } from '@angular/core';
+import { AbstractControl, AsyncValidatorFn, ValidationErrors } from '@angular/forms';
+import { catchError, defaultIfEmpty, defer, finalize, Observable, of, switchMap, take, tap, timer } from 'rxjs';
+import { filterNonNull } from '../../rxjs/operator/filterNonNull';
+
+/**
+ * Options of {@link asyncValidator}.
+ *
+ * @template T The type of the control value.
+ */
+export interface AsyncValidatorOptions<T> {
+
+    /**
+     * How long, in milliseconds, the value has to stay unchanged before the check runs. Default value is 300 ms.
+     */
+    debounceMs?: number;
+
+    /**
+     * How long, in milliseconds, the result of a check is reused for the same value.
+     * `0` disables caching. Default value is 60 000 ms.
+     */
+    cacheTtlMs?: number;
+
+    /**
+     * Extracts the cache key of a value. Defaults to the value itself, which suits primitive values.
+     */
+    cacheKey?: (value: T) => unknown;
+}
+
+/**
+ * An `AsyncValidatorFn` created by {@link asyncValidator}, exposing its pending state and cache.
+ */
+export interface AsyncValidatorHandle extends AsyncValidatorFn {
+
+    /**
+     * Whether a check is in flight (debouncing or waiting for the result).
+     */
+    readonly pending: Signal<boolean>;
+
+    /**
+     * Forgets every cached result.
+     */
+    clearCache(): void;
+}
+
+/**
+ * Creates an async validator function from an observable check, such as "is this username taken".
+ *
+ * - The check runs once the value has stayed unchanged for `debounceMs`.
+ *   A value change cancels the pending or in-flight check, as Angular unsubscribes from the previous validation.
+ * - Results are cached per value for `cacheTtlMs`, so going back to a value does not hit the backend again.
+ *   Expired results are pruned whenever a new result is cached.
+ * - `null` and `undefined` values are valid and never checked.
+ * - If the check errors, the control gets an `asyncCheckFailed` error and the result is not cached.
+ *
+ * @param check - Returns the validation errors of a value, or `null` if valid. Only its first emission is used.
+ * @param options - See {@link AsyncValidatorOptions}.
+ * @returns An `AsyncValidatorFn` with a `pending` signal and a `clearCache()` method.
+ *
+ * @example
+ * ```ts
+ * const usernameTaken = asyncValidator<string>(
+ *     name => userService.exists(name).pipe(map(exists => exists ? { usernameTaken: true } : null)),
+ *     { debounceMs: 500 }
+ * );
+ * const username = new FormControl('', { asyncValidators: usernameTaken });
+ * ```
+ */
+export function asyncValidator<T>(
+    check: (value: T) => Observable<ValidationErrors | null>,
+    options: AsyncValidatorOptions<T> = {}
+): AsyncValidatorHandle {
+    const { debounceMs = 300, cacheTtlMs = 60_000, cacheKey = (value: T) => value } = options;
+
+    const cache = new Map<unknown, { result: ValidationErrors | null; expiresAt: number }>();
+    const inFlight = signal(0);
+
+    const validator = (control: AbstractControl<T | null | undefined>): Observable<ValidationErrors | null> => {
+        return of(control.value).pipe(
+            filterNonNull(),
+            switchMap(value => {
+                const key = cacheKey(value);
+                const cached = cache.get(key);
+                if (cached && cached.expiresAt > Date.now()) {
+                    return of(cached.result);
+                }
+                cache.delete(key);
+
+                return defer(() => {
+                    inFlight.update(count => count + 1);
+                    return timer(debounceMs).pipe(
+                        switchMap(() => check(value)),
+                        take(1),
+                        tap(result => {
+                            if (cacheTtlMs > 0) {
+                                pruneExpired(cache);
+                                cache.set(key, { result, expiresAt: Date.now() + cacheTtlMs });
+                            }
+                        }),
+                        catchError(() => of({ asyncCheckFailed: true })),
+                        finalize(() => inFlight.update(count => count - 1))
+                    );
+                });
+            }),
+            defaultIfEmpty(null)
+        );
+    };
+
+    return Object.assign(validator, {
+        pending: computed(() => inFlight() > 0),
+        clearCache: () => cache.clear()
+    });
+}
+
+/**
+ * Removes the expired entries from the cache.
+ */
+function pruneExpired(cache: Map<unknown, { expiresAt: number }>): void {
+    const now = Date.now();
+    for (const [key, entry] of cache) {
+        if (entry.expiresAt <= now) {
+            cache.delete(key);
+        }
+    }
+}
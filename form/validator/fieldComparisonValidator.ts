@@ -0,0 +1,143 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { compareNumber, NumberComparisonOperator } from './numberValidator';
+
+/**
+ * Options of {@link fieldComparisonValidator}.
+ */
+export interface FieldComparisonOptions {
+
+    /**
+     * The key of the error object. Use distinct keys when a group has several comparisons.
+     * Default value is `'fieldComparison'`.
+     */
+    errorKey?: string;
+
+    /**
+     * Whether the error is also set on the control at `path`, so that it can be displayed next to the field.
+     * The mirrored error is removed again once the comparison holds. Default value is `false`.
+     */
+    mirrorError?: boolean;
+}
+
+/**
+ * Creates a group-level validator function that compares two sibling controls,
+ * checking whether `path op otherPath` holds.
+ *
+ * Values are compared as numbers, as timestamps when both are `Date`s, or as strings (by `localeCompare`).
+ * If either value is `null` or `undefined`, the comparison is skipped, so required fields
+ * should be validated by their own validators.
+ *
+ * @param path - The path of the dependent control, relative to the group (e.g. `'end'` or `'range.end'`).
+ * @param op - The comparison operator: 
+ *   - `'gt'` = greater than,
+ *   - `'ge'` = greater than or equal to,
+ *   - `'lt'` = less than,
+ *   - `'le'` = less than or equal to,
+ *   - `'eq'` = equal to.
+ * @param otherPath - The path of the control to compare against, relative to the group.
+ * @param options - See {@link FieldComparisonOptions}.
+ * @returns A `ValidatorFn` for the group. Returns `null` if valid, or an error object
+ *          with the same `{ operator, expected, actual }` payload as `numberValidator` otherwise.
+ *
+ * @example
+ * ```ts
+ * const range = new FormGroup({
+ *     start: new FormControl<Date | null>(null),
+ *     end: new FormControl<Date | null>(null)
+ * }, fieldComparisonValidator('end', 'gt', 'start', { mirrorError: true }));
+ *
+ * const account = new FormGroup({
+ *     password: new FormControl(''),
+ *     confirmPassword: new FormControl('')
+ * }, fieldComparisonValidator('confirmPassword', 'eq', 'password', { errorKey: 'passwordMismatch' }));
+ * ```
+ */
+export function fieldComparisonValidator(
+    path: string,
+    op: NumberComparisonOperator,
+    otherPath: string,
+    options: FieldComparisonOptions = {}
+): ValidatorFn {
+    const { errorKey = 'fieldComparison', mirrorError = false } = options;
+
+    return (group: AbstractControl): ValidationErrors | null => {
+        const control = group.get(path);
+        const other = group.get(otherPath);
+        if (!control || !other) {
+            return null;
+        }
+
+        const value = control.value;
+        const expected = other.value;
+
+        const isValid = value == null || expected == null || compareValues(value, expected, op);
+        const error = isValid ? null : {
+            operator: op,
+            expected,
+            actual: value,
+            path,
+            otherPath
+        };
+
+        if (mirrorError) {
+            mirrorErrorTo(control, errorKey, error);
+        }
+
+        return error ? { [errorKey]: error } : null;
+    };
+}
+
+/**
+ * Compares two field values with the given comparison operator.
+ */
+function compareValues(value: unknown, expected: unknown, op: NumberComparisonOperator): boolean {
+    if (value instanceof Date && expected instanceof Date) {
+        return compareNumber(value.getTime(), expected.getTime(), op);
+    }
+    if (typeof value === 'number' && typeof expected === 'number') {
+        return compareNumber(value, expected, op);
+    }
+    if (typeof value === 'string' && typeof expected === 'string') {
+        return op === 'eq'
+            ? value === expected
+            : compareNumber(value.localeCompare(expected), 0, op);
+    }
+    return op === 'eq' && value === expected;
+}
+
+/**
+ * Sets or removes the error under `errorKey` on the control, keeping its other errors.
+ */
+function mirrorErrorTo(control: AbstractControl, errorKey: string, error: ValidationErrors | null): void {
+    const hasMirror = control.hasError(errorKey);
+    if (error) {
+        control.setErrors({ ...control.errors, [errorKey]: error });
+    } else if (hasMirror) {
+        const { [errorKey]: _, ...rest } = control.errors ?? {};
+        control.setErrors(Object.keys(rest).length > 0 ? rest : null);
+    }
+}
@@ -23,6 +23,7 @@
  */
 
 import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { ValueValidatorFn } from './valueValidatorFn';
 
 /**
  * Creates a validator function that checks whether the value of a form control is an array
@@ -38,12 +39,22 @@ import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
  * ```
  */
 export function minArrayLengthValidator(minLength: number): ValidatorFn {
-    return (control: AbstractControl): ValidationErrors | null => {
-        if (!Array.isArray(control.value)) {
+    const rule = minArrayLengthRule(minLength);
+    return (control: AbstractControl): ValidationErrors | null => rule(control.value);
+}
+
+/**
+ * Creates the value rule behind {@link minArrayLengthValidator}, for use outside of reactive forms (e.g. with signals).
+ *
+ * @param minLength - The minimum number of items required in the array.
+ * @returns A {@link ValueValidatorFn} with the same semantics and errors as {@link minArrayLengthValidator}.
+ */
+export function minArrayLengthRule(minLength: number): ValueValidatorFn<unknown> {
+    return (value: unknown): ValidationErrors | null => {
+        if (!Array.isArray(value)) {
             return { invalidType: 'Value is not an array' };
         }
 
-        const value = control.value as unknown[];
         if (value.length >= minLength) {
             return null;
         }
@@ -23,6 +23,12 @@
  */
 
 import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { ValueValidatorFn } from './valueValidatorFn';
+
+/**
+ * The comparison operators supported by {@link numberValidator}.
+ */
+export type NumberComparisonOperator = 'gt' | 'ge' | 'lt' | 'le' | 'eq';
 
 /**
  * Creates a numeric validator function that checks whether the value satisfies a given comparison operation.
@@ -43,35 +49,25 @@ import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
  * const control = new FormControl(3, numberValidator(5, 'gt'));  // invalid
  * ```
  */
-export function numberValidator(limit: number, op: 'gt' | 'ge' | 'lt' | 'le' | 'eq'): ValidatorFn {
-    return (control: AbstractControl<number | null>): ValidationErrors | null => {
-        const value = control.value;
+export function numberValidator(limit: number, op: NumberComparisonOperator): ValidatorFn {
+    const rule = numberRule(limit, op);
+    return (control: AbstractControl<number | null>): ValidationErrors | null => rule(control.value);
+}
 
+/**
+ * Creates the value rule behind {@link numberValidator}, for use outside of reactive forms (e.g. with signals).
+ *
+ * @param limit - The numeric limit to compare against.
+ * @param op - The comparison operator.
+ * @returns A {@link ValueValidatorFn} with the same semantics and errors as {@link numberValidator}.
+ */
+export function numberRule(limit: number, op: NumberComparisonOperator): ValueValidatorFn<number | null | undefined> {
+    return (value: number | null | undefined): ValidationErrors | null => {
         if (value == null) {
             return { nullInput: true };
         }
 
-        let isValid = false;
-
-        switch (op) {
-            case 'gt':
-                isValid = value > limit; 
-                break;
-            case 'ge':
-                isValid = value >= limit; 
-                break;
-            case 'lt':
-                isValid = value < limit; 
-                break;
-            case 'le':
-                isValid = value <= limit; 
-                break;
-            case 'eq':
-                isValid = value === limit; 
-                break;
-        }
-
-        return isValid ? null : {
+        return compareNumber(value, limit, op) ? null : {
             numberValidator: {
                 operator: op,
                 expected: limit,
@@ -79,4 +75,27 @@ export function numberValidator(limit: number, op: 'gt' | 'ge' | 'lt' | 'le' | '
             }
         };
     };
+}
+
+/**
+ * Compares a value against a limit with the given comparison operator.
+ *
+ * @param value - The value to check.
+ * @param limit - The numeric limit to compare against.
+ * @param op - The comparison operator.
+ * @returns `true` if `value op limit` holds.
+ */
+export function compareNumber(value: number, limit: number, op: NumberComparisonOperator): boolean {
+    switch (op) {
+        case 'gt':
+            return value > limit;
+        case 'ge':
+            return value >= limit;
+        case 'lt':
+            return value < limit;
+        case 'le':
+            return value <= limit;
+        case 'eq':
+            return value === limit;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,352 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { compareNumber, NumberComparisonOperator } from './numberValidator';
+
+/**
+ * The payload reported for every failed rule of a validator created with {@link v}.
+ * The error object of the control maps each failed rule name to its payload.
+ *
+ * @example
+ * ```ts
+ * { ge: { rule: 'ge', expected: 0, actual: -1 }, integer: { rule: 'integer', expected: true, actual: -1.5 } }
+ * ```
+ */
+export interface RuleError {
+    rule: string;
+    expected: unknown;
+    actual: unknown;
+}
+
+/**
+ * A single rule of a validator builder.
+ */
+interface Rule<T> {
+    name: string;
+    expected: unknown;
+    test: (value: T) => boolean;
+    actual?: (value: T) => unknown;
+}
+
+/**
+ * Base class of the validator builders, collecting rules and compiling them into a single `ValidatorFn`.
+ *
+ * - `null` and `undefined` values are valid unless `required()` is set, so that the builder
+ *   composes with other validators the same way Angular's built-in validators do.
+ * - A value of the wrong type fails the `type` rule and no other rule is evaluated.
+ * - Otherwise every rule is evaluated and every failed rule is reported.
+ * - A rule name can be added only once, since it keys the error object; adding it again throws.
+ *
+ * @template T The type of value validated by the builder.
+ */
+abstract class RuleBuilder<T> {
+    protected readonly rules: Rule<T>[] = [];
+    private isRequired = false;
+
+    /**
+     * The name of the expected type, reported by the `type` rule.
+     */
+    protected abstract readonly typeName: string;
+
+    /**
+     * Makes `null` and `undefined` fail the `required` rule.
+     *
+     * @returns This builder instance for method chaining.
+     */
+    required(): this {
+        this.isRequired = true;
+        return this;
+    }
+
+    /**
+     * Adds a custom rule.
+     *
+     * @param name The rule name, used as key of the error object.
+     * @param expected The expected value reported when the rule fails.
+     * @param test A function returning `true` if the value satisfies the rule.
+     * @returns This builder instance for method chaining.
+     */
+    custom(name: string, expected: unknown, test: (value: T) => boolean): this {
+        return this.addRule({ name, expected, test });
+    }
+
+    /**
+     * Compiles the rules into a single `ValidatorFn`.
+     *
+     * @returns A `ValidatorFn` returning `null` if valid, or an error object with a {@link RuleError} per failed rule.
+     */
+    build(): ValidatorFn {
+        const rules = [...this.rules];
+        const isRequired = this.isRequired;
+
+        return (control: AbstractControl): ValidationErrors | null => {
+            const value = control.value;
+
+            if (value == null) {
+                return isRequired ? toErrors([{ rule: 'required', expected: true, actual: value }]) : null;
+            }
+
+            if (!this.isType(value)) {
+                return toErrors([{ rule: 'type', expected: this.typeName, actual: value }]);
+            }
+
+            const failed = rules
+                .filter(rule => !rule.test(value))
+                .map(rule => ({
+                    rule: rule.name,
+                    expected: rule.expected,
+                    actual: rule.actual ? rule.actual(value) : value
+                }));
+            return toErrors(failed);
+        };
+    }
+
+    protected addRule(rule: Rule<T>): this {
+        if (this.rules.some(existing => existing.name === rule.name)) {
+            throw new Error(`Rule '${rule.name}' is already defined`);
+        }
+        this.rules.push(rule);
+        return this;
+    }
+
+    /**
+     * Checks whether the value has the type handled by the builder.
+     */
+    protected abstract isType(value: unknown): value is T;
+}
+
+/**
+ * Builder of numeric validators.
+ */
+class NumberRuleBuilder extends RuleBuilder<number> {
+    protected readonly typeName = 'number';
+
+    /**
+     * The value must be greater than `limit`.
+     */
+    gt(limit: number): this {
+        return this.compare(limit, 'gt');
+    }
+
+    /**
+     * The value must be greater than or equal to `limit`.
+     */
+    ge(limit: number): this {
+        return this.compare(limit, 'ge');
+    }
+
+    /**
+     * The value must be less than `limit`.
+     */
+    lt(limit: number): this {
+        return this.compare(limit, 'lt');
+    }
+
+    /**
+     * The value must be less than or equal to `limit`.
+     */
+    le(limit: number): this {
+        return this.compare(limit, 'le');
+    }
+
+    /**
+     * The value must be equal to `limit`.
+     */
+    eq(limit: number): this {
+        return this.compare(limit, 'eq');
+    }
+
+    /**
+     * The value must not be equal to `limit`.
+     */
+    ne(limit: number): this {
+        return this.addRule({ name: 'ne', expected: limit, test: value => !compareNumber(value, limit, 'eq') });
+    }
+
+    /**
+     * The value must be within `[min, max]`, bounds included.
+     */
+    between(min: number, max: number): this {
+        return this.addRule({
+            name: 'between',
+            expected: { min, max },
+            test: value => compareNumber(value, min, 'ge') && compareNumber(value, max, 'le')
+        });
+    }
+
+    /**
+     * The value must be an integer.
+     */
+    integer(): this {
+        return this.addRule({ name: 'integer', expected: true, test: value => Number.isInteger(value) });
+    }
+
+    /**
+     * The value must be a multiple of `step`, tolerating floating point rounding (e.g. `0.3` is a multiple of `0.1`).
+     *
+     * @throws Error if `step` is zero or not a finite number.
+     */
+    multipleOf(step: number): this {
+        if (!Number.isFinite(step) || step === 0) {
+            throw new Error(`The step must be a non-zero finite number, got ${step}`);
+        }
+        return this.addRule({
+            name: 'multipleOf',
+            expected: step,
+            test: value => {
+                const quotient = value / step;
+                return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+            }
+        });
+    }
+
+    /**
+     * The value must have at most `digits` decimal places.
+     *
+     * @throws Error if `digits` is not an integer between 0 and 100.
+     */
+    precision(digits: number): this {
+        if (!Number.isInteger(digits) || digits < 0 || digits > 100) {
+            throw new Error(`The digits must be an integer between 0 and 100, got ${digits}`);
+        }
+        return this.addRule({
+            name: 'precision',
+            expected: digits,
+            test: value => Number(value.toFixed(digits)) === value
+        });
+    }
+
+    protected isType(value: unknown): value is number {
+        return typeof value === 'number' && !Number.isNaN(value);
+    }
+
+    private compare(limit: number, op: NumberComparisonOperator): this {
+        return this.addRule({ name: op, expected: limit, test: value => compareNumber(value, limit, op) });
+    }
+}
+
+/**
+ * Builder of array validators.
+ *
+ * @template T The type of array items.
+ */
+class ArrayRuleBuilder<T> extends RuleBuilder<T[]> {
+    protected readonly typeName = 'array';
+
+    /**
+     * The array must contain at least `min` items.
+     */
+    minLength(min: number): this {
+        return this.length('minLength', min, 'ge');
+    }
+
+    /**
+     * The array must contain at most `max` items.
+     */
+    maxLength(max: number): this {
+        return this.length('maxLength', max, 'le');
+    }
+
+    /**
+     * The array items must be unique. The reported actual value is the list of duplicated keys.
+     *
+     * @param keyOf Extracts the key identifying an item. Defaults to the item itself.
+     */
+    unique(keyOf: (item: T) => unknown = item => item): this {
+        const duplicates = (value: T[]): unknown[] => {
+            const seen = new Set<unknown>();
+            const duplicated = new Set<unknown>();
+            for (const item of value) {
+                const key = keyOf(item);
+                if (seen.has(key)) {
+                    duplicated.add(key);
+                }
+                seen.add(key);
+            }
+            return [...duplicated];
+        };
+
+        return this.addRule({
+            name: 'unique',
+            expected: true,
+            test: value => duplicates(value).length === 0,
+            actual: duplicates
+        });
+    }
+
+    protected isType(value: unknown): value is T[] {
+        return Array.isArray(value);
+    }
+
+    private length(name: string, limit: number, op: NumberComparisonOperator): this {
+        return this.addRule({
+            name,
+            expected: limit,
+            test: value => compareNumber(value.length, limit, op),
+            actual: value => value.length
+        });
+    }
+}
+
+/**
+ * Converts the failed rules into a `ValidationErrors` object, or `null` if there is none.
+ */
+function toErrors(failed: RuleError[]): ValidationErrors | null {
+    if (failed.length === 0) {
+        return null;
+    }
+
+    const errors: ValidationErrors = {};
+    for (const error of failed) {
+        errors[error.rule] = error;
+    }
+    return errors;
+}
+
+/**
+ * Entry point of the composable validator builders.
+ * Each builder chains rules and compiles them with `build()` into a single `ValidatorFn`
+ * that reports every failed rule as a {@link RuleError}.
+ *
+ * @example
+ * ```ts
+ * const price = new FormControl(0, v.number().required().ge(0).lt(100).precision(2).build());
+ * const tags = new FormControl<Tag[]>([], v.array<Tag>().minLength(2).maxLength(5).unique(tag => tag.id).build());
+ * ```
+ */
+export const v = {
+
+    /**
+     * Creates a builder of numeric validators.
+     */
+    number: (): NumberRuleBuilder => new NumberRuleBuilder(),
+
+    /**
+     * Creates a builder of array validators.
+     *
+     * @template T The type of array items.
+     */
+    array: <T = unknown>(): ArrayRuleBuilder<T> => new ArrayRuleBuilder<T>()
+};
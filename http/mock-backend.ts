@@ -0,0 +1,266 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject, InjectionToken, Provider } from '@angular/core';
+import { delay, mergeMap, Observable, of, throwError, timer } from 'rxjs';
+import { mockMore, MockMoreOptions } from '../pipe/mock-more';
+
+/**
+ * A route of the mock backend.
+ * The response body is generated with the same expansion and proxy semantics as the `mockMore` pipe,
+ * configured by the {@link MockMoreOptions} of the route (e.g. `targetSize`, `fields`, `schema`).
+ *
+ * @template T The type of the mocked items.
+ */
+export interface MockRoute<T = any> extends MockMoreOptions<T> {
+
+    /**
+     * The HTTP method to match (default: `'GET'`).
+     */
+    method?: string;
+
+    /**
+     * The URL path to match. Segments starting with `:` match any value and are passed to `respond`
+     * as params, e.g. `'/api/users/:id'`. The origin and the query string of the request are ignored.
+     */
+    url: string;
+
+    /**
+     * The seed items expanded to the list response (default: an empty array, filled with mock items).
+     */
+    data?: T[];
+
+    /**
+     * Builds the response body from the generated list instead of returning it,
+     * e.g. to return a single item by id or to echo a request body.
+     */
+    respond?: (items: T[], request: HttpRequest<unknown>, params: Record<string, string>) => unknown;
+
+    /**
+     * Whether the list is paginated by the `page` (zero-based) and `size` query params.
+     * The response body then is `{ items, total, page, size }` (default: `false`).
+     */
+    paginate?: boolean;
+
+    /**
+     * The latency of this route, overriding {@link MockBackendConfig.latencyMs}.
+     */
+    latencyMs?: number | [number, number];
+
+    /**
+     * The error rate of this route, overriding {@link MockBackendConfig.errorRate}.
+     */
+    errorRate?: number;
+}
+
+/**
+ * Configuration of the mock backend.
+ */
+export interface MockBackendConfig {
+
+    /**
+     * The routes of the mock backend. The first matching route answers; unmatched requests reach the real backend.
+     */
+    routes: MockRoute[];
+
+    /**
+     * The simulated latency in milliseconds, fixed or as a `[min, max]` range (default: 0).
+     */
+    latencyMs?: number | [number, number];
+
+    /**
+     * The probability, between `0` and `1`, that a request fails (default: 0).
+     */
+    errorRate?: number;
+
+    /**
+     * The HTTP status of simulated failures (default: 500).
+     */
+    errorStatus?: number;
+}
+
+/**
+ * The page of a paginated mock route response.
+ *
+ * @template T The type of the mocked items.
+ */
+export interface MockPage<T> {
+    items: T[];
+    total: number;
+    page: number;
+    size: number;
+}
+
+/**
+ * Injection token of the {@link MockBackendConfig} used by the {@link mockBackendInterceptor}.
+ * Use {@link provideMockBackend} to provide it.
+ */
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG');
+
+/**
+ * Provides the route table of the {@link mockBackendInterceptor}.
+ *
+ * The interceptor itself must be registered with `provideHttpClient(withInterceptors([mockBackendInterceptor]))`,
+ * otherwise the routes are ignored. List it last, so that authentication or logging interceptors
+ * see the mocked requests as well.
+ *
+ * Caution: Not intended for production. Should only be used in mock or visual testing environments.
+ *
+ * @param config The routes and the simulated latency and errors.
+ * @returns The provider of {@link MOCK_BACKEND_CONFIG}.
+ *
+ * @example
+ * ```ts
+ * bootstrapApplication(AppComponent, {
+ *     providers: [
+ *         provideHttpClient(withInterceptors([authInterceptor, mockBackendInterceptor])),
+ *         provideMockBackend({
+ *             latencyMs: [100, 400],
+ *             errorRate: 0.05,
+ *             routes: [
+ *                 { url: '/api/users', targetSize: 500, schema: { name: 'person.fullName' }, fields: ['profile'], paginate: true },
+ *                 { url: '/api/users/:id', schema: { name: 'person.fullName' }, respond: (users, _, { id }) => ({ ...users[0], id: +id }) }
+ *             ]
+ *         })
+ *     ]
+ * });
+ * ```
+ */
+export function provideMockBackend(config: MockBackendConfig): Provider {
+    return { provide: MOCK_BACKEND_CONFIG, useValue: config };
+}
+
+/**
+ * Cache of the generated lists by route, so that consecutive pages of a route are consistent.
+ */
+const generatedLists = new WeakMap<MockRoute, unknown[]>();
+
+/**
+ * An HTTP interceptor answering the requests that match a route of the {@link MockBackendConfig}
+ * with generated mock data, and forwarding every other request.
+ * Register it with `withInterceptors()`, and provide its routes with {@link provideMockBackend}.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (request, next) => {
+    const config = inject(MOCK_BACKEND_CONFIG, { optional: true });
+    if (!config) {
+        return next(request);
+    }
+
+    for (const route of config.routes) {
+        const params = matchRoute(route, request);
+        if (params) {
+            return respond(route, config, request, params);
+        }
+    }
+    return next(request);
+};
+
+/**
+ * Builds the delayed response, or the simulated failure, of a matched route.
+ */
+function respond(
+    route: MockRoute,
+    config: MockBackendConfig,
+    request: HttpRequest<unknown>,
+    params: Record<string, string>
+): Observable<HttpResponse<unknown>> {
+    const latency = pickLatency(route.latencyMs ?? config.latencyMs ?? 0);
+    const errorRate = route.errorRate ?? config.errorRate ?? 0;
+
+    if (Math.random() < errorRate) {
+        const status = config.errorStatus ?? 500;
+        return timer(latency).pipe(
+            mergeMap(() => throwError(() => new HttpErrorResponse({
+                status,
+                statusText: 'Mock Backend Error',
+                url: request.url,
+                error: { message: `Simulated failure of ${request.method} ${request.url}` }
+            })))
+        );
+    }
+
+    let items = generatedLists.get(route);
+    if (!items) {
+        items = mockMore(route.data ?? [], route);
+        generatedLists.set(route, items);
+    }
+
+    const body = route.respond
+        ? route.respond(items, request, params)
+        : route.paginate ? paginate(items, request) : items;
+
+    return of(new HttpResponse({ status: 200, url: request.url, body })).pipe(delay(latency));
+}
+
+/**
+ * Matches the request against the route, returning the path params or `null` if it does not match.
+ */
+function matchRoute(route: MockRoute, request: HttpRequest<unknown>): Record<string, string> | null {
+    if ((route.method ?? 'GET').toUpperCase() !== request.method.toUpperCase()) {
+        return null;
+    }
+
+    const path = request.url.replace(/^[a-z]+:\/\/[^/]+/i, '').split(/[?#]/)[0].replace(/\/+$/, '');
+    const pathSegments = path.split('/');
+    const routeSegments = route.url.replace(/\/+$/, '').split('/');
+    if (pathSegments.length !== routeSegments.length) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < routeSegments.length; i++) {
+        const segment = routeSegments[i];
+        if (segment.startsWith(':')) {
+            params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+        } else if (segment !== pathSegments[i]) {
+            return null;
+        }
+    }
+    return params;
+}
+
+/**
+ * Slices the page requested by the `page` and `size` query params.
+ */
+function paginate<T>(items: T[], request: HttpRequest<unknown>): MockPage<T> {
+    // `urlWithParams` covers both the `params` option and a query string written in the URL
+    const query = new URLSearchParams(request.urlWithParams.split('?')[1] ?? '');
+    const page = Math.max(0, Number(query.get('page') ?? 0) || 0);
+    const size = Math.max(1, Number(query.get('size') ?? 20) || 20);
+    return {
+        items: items.slice(page * size, (page + 1) * size),
+        total: items.length,
+        page,
+        size
+    };
+}
+
+function pickLatency(latency: number | [number, number]): number {
+    if (typeof latency === 'number') {
+        return latency;
+    }
+    const [min, max] = latency;
+    return min + Math.random() * (max - min);
+}
@@ -0,0 +1,168 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Pipe, PipeTransform } from '@angular/core';
+
+/**
+ * The calendar units supported by the `dateRange` pipe.
+ */
+export type DateStepUnit = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * A step of a date range, e.g. `{ amount: 1, unit: 'day' }` or `{ amount: -2, unit: 'week' }`.
+ */
+export interface DateStep {
+    amount: number;
+    unit: DateStepUnit;
+}
+
+/**
+ * Parses a step such as `'1 day'`, `'-2 weeks'`, `'15 minutes'` or `'month'` (an amount of 1).
+ * Only `minute` and `hour` steps may have a fractional amount (e.g. `'1.5 hours'`), since calendar units
+ * cannot be split evenly: use `'36 hours'` rather than `'1.5 days'`.
+ *
+ * @param step The step as text or as a {@link DateStep}.
+ * @returns The parsed step.
+ * @throws Error if the step cannot be parsed, or has a fractional amount of days, weeks or months.
+ */
+export function parseDateStep(step: string | DateStep): DateStep {
+    let dateStep = step;
+    if (typeof dateStep === 'string') {
+        const match = /^\s*([+-]?\d*\.?\d+)?\s*(minute|hour|day|week|month)s?\s*$/i.exec(dateStep);
+        if (!match) {
+            throw new Error(`Invalid date step: '${step}'`);
+        }
+        dateStep = {
+            amount: match[1] === undefined ? 1 : Number(match[1]),
+            unit: match[2].toLowerCase() as DateStepUnit
+        };
+    }
+
+    if (dateStep.unit !== 'minute' && dateStep.unit !== 'hour' && !Number.isInteger(dateStep.amount)) {
+        throw new Error(`The amount of a '${dateStep.unit}' step must be an integer: '${JSON.stringify(step)}'`);
+    }
+    return dateStep;
+}
+
+/**
+ * Adds a step a number of times to a date.
+ *
+ * - `minute` and `hour` steps are exact durations, so they stay evenly spaced across DST transitions.
+ * - `day` and `week` steps are calendar days in local time, so they keep the wall-clock time across DST transitions.
+ * - `month` steps clamp to the end of the month (Jan 31 + 1 month = Feb 28/29) and do not drift,
+ *   since every value is computed from `date` rather than from the previous value.
+ *
+ * @param date The date to start from.
+ * @param step The step to add.
+ * @param times How many times the step is added (default: 1).
+ * @returns A new date.
+ */
+export function addDateStep(date: Date, step: DateStep, times: number = 1): Date {
+    const amount = step.amount * times;
+
+    switch (step.unit) {
+        case 'minute':
+            return new Date(date.getTime() + amount * 60_000);
+        case 'hour':
+            return new Date(date.getTime() + amount * 3_600_000);
+        case 'day':
+        case 'week': {
+            const result = new Date(date);
+            result.setDate(date.getDate() + amount * (step.unit === 'week' ? 7 : 1));
+            return result;
+        }
+        case 'month': {
+            const result = new Date(date);
+            result.setDate(1);
+            result.setMonth(date.getMonth() + amount);
+            const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+            result.setDate(Math.min(date.getDate(), lastDay));
+            return result;
+        }
+    }
+}
+
+/**
+ * Generates an array of dates similar to Python's `range()`, from `start` (inclusive) to `stop` (exclusive).
+ * A negative step walks backwards, with `stop` before `start`.
+ *
+ * See {@link addDateStep} for the handling of months and DST transitions.
+ *
+ * Example usage:
+ * ```
+ * @for (day of start | dateRange:end; track day) { ... }                <!-- every day -->
+ * @for (slot of start | dateRange:end:'30 minutes'; track slot) { ... }
+ * @for (month of start | dateRange:end:'1 month'; track month) { ... }  <!-- Jan 31, Feb 29, Mar 31, ... -->
+ * @for (week of end | dateRange:start:'-1 week'; track week) { ... }    <!-- newest first -->
+ * ```
+ */
+@Pipe({
+    name: 'dateRange',
+    standalone: true
+})
+export class DateRangePipe implements PipeTransform {
+
+    // Overload signatures for better type inference
+    transform(start: Date | string | number, stop: Date | string | number): Date[];
+    transform(start: Date | string | number, stop: Date | string | number, step: string | DateStep): Date[];
+
+    /**
+     * Generates the dates from `start` to `stop`, excluded, incrementing by `step` (default: `'1 day'`).
+     * If `step` has an amount of zero, an error is thrown to prevent infinite loops.
+     */
+    transform(start: Date | string | number, stop: Date | string | number, step: string | DateStep = '1 day'): Date[] {
+        const startDate = toDate(start);
+        const stopTime = toDate(stop).getTime();
+        const dateStep = parseDateStep(step);
+
+        if (!Number.isFinite(dateStep.amount)) {
+            throw new Error(`Invalid date step: '${JSON.stringify(step)}'`);
+        }
+        if (dateStep.amount === 0) {
+            throw new Error('Step cannot be zero');
+        }
+
+        const result: Date[] = [];
+        const isBefore = dateStep.amount > 0
+            ? (date: Date) => date.getTime() < stopTime
+            : (date: Date) => date.getTime() > stopTime;
+
+        for (let i = 0, date = startDate; isBefore(date); date = addDateStep(startDate, dateStep, ++i)) {
+            result.push(date);
+        }
+        return result;
+    }
+}
+
+/**
+ * Converts a pipe argument to a date.
+ * @throws Error if the argument is not a valid date.
+ */
+function toDate(value: Date | string | number): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid date: '${value}'`);
+    }
+    return date;
+}
@@ -0,0 +1,56 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { inject, Pipe, PipeTransform } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+import { ValidationMessageRegistry } from '../form/error/validationMessageRegistry';
+
+/**
+ * Turns the errors of a form control into human readable messages using the {@link ValidationMessageRegistry}.
+ *
+ * Example usage:
+ * ```
+ * @for (message of control.errors | formErrors; track message) {
+ *     <small class="error">{{ message }}</small>
+ * }
+ * ```
+ */
+@Pipe({
+    name: 'formErrors',
+    standalone: true
+})
+export class FormErrorsPipe implements PipeTransform {
+
+    private readonly registry = inject(ValidationMessageRegistry);
+
+    /**
+     * Formats every error of the errors object.
+     *
+     * @param errors The errors of a control, e.g. `control.errors`.
+     * @returns The formatted messages, or an empty array if there is no error.
+     */
+    transform(errors: ValidationErrors | null | undefined): string[] {
+        return this.registry.formatAll(errors);
+    }
+}
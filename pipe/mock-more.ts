@@ -23,6 +23,66 @@
  */
 
 import { Pipe, PipeTransform } from '@angular/core';
+import { compileMockSchema, createRandom, MockSchema } from './mock-schema';
+import { MockAccessRecorder } from './mock-recorder';
+import { MockVariation } from './mock-variation';
+
+/**
+ * Options of the {@link MockMorePipe}, as an alternative to the positional arguments.
+ *
+ * @template T The type of array items.
+ */
+export interface MockMoreOptions<T> {
+
+    /**
+     * Field keys to populate with mock proxies, unless generated by the `schema`.
+     */
+    fields?: (keyof T)[];
+
+    /**
+     * Generators of realistic mock values by field, see {@link MockSchema}.
+     */
+    schema?: MockSchema<T>;
+
+    /**
+     * Minimum number of items to reach (default: 100).
+     */
+    targetSize?: number;
+
+    /**
+     * String used when a mock proxy is coerced to string or displayed (default: `'mock'`).
+     */
+    mockLabel?: string;
+
+    /**
+     * Seed of the random number generator used by the `schema` and the `vary` hooks (default: 1).
+     * The same seed always produces the same items, so screenshots are reproducible.
+     */
+    seed?: number;
+
+    /**
+     * Whether the result has exactly `targetSize` items, rather than at least `targetSize` items
+     * (default: `false`). Longer arrays are truncated as well.
+     */
+    exact?: boolean;
+
+    /**
+     * Clones every duplicated copy and gives it a unique value for this key, so that `@for` tracking
+     * by that key keeps working. `true` uses the `id` key.
+     * Numeric keys continue after the largest original key, other keys get the copy number appended (`'a'` -> `'a-1'`).
+     */
+    reindex?: boolean | keyof T;
+
+    /**
+     * Hooks applied to every duplicated copy (implies cloning), e.g. {@link suffixStrings} or {@link jitterNumbers}.
+     */
+    vary?: MockVariation<T> | MockVariation<T>[];
+
+    /**
+     * Records the property paths read from the mock proxies, see {@link MockAccessRecorder}.
+     */
+    recorder?: MockAccessRecorder;
+}
 
 /**
  * A pipe for generating excess mock data with safe nested mocks, primarily used for visual testing.
@@ -33,6 +93,8 @@ import { Pipe, PipeTransform } from '@angular/core';
  * - When the input array is small or empty, it will be expanded or filled with dummy objects.
  * - When empty, specified mock fields will be populated with *safe mock proxies* created by `createMock()`.
  *   These proxies allow arbitrary nested property access without runtime errors.
+ * - When empty, fields described by a *schema* are filled with realistic values from a seeded generator,
+ *   see {@link MockSchema}. Fields not covered by the schema keep falling back to mock proxies.
  * - The final output ensures at least a minimum dataset size, useful for UI stress testing.
  *
  * Caution: Not intended for production. Should only be used in mock or visual testing environments.
@@ -67,6 +129,23 @@ import { Pipe, PipeTransform } from '@angular/core';
  *     {{ item.id }} – {{ item.foo.bar.baz }} – {{ item.bar.value }}
  * }
  * ```
+ * 
+ * **5. Realistic values from a schema:**
+ * ```html
+ * @for (item of data | mockMore: { schema: { name: 'person.fullName', price: 'number(0,1000)' }, fields: ['profile'] }) {
+ *     {{ item.name }} – {{ item.price }} – {{ item.profile.bio }}
+ * }
+ * ```
+ * 
+ * **6. Exactly 200 distinct copies of existing data, tracked by id:**
+ * ```ts
+ * readonly mockOptions: MockMoreOptions<Product> = { targetSize: 200, exact: true, reindex: 'id', vary: [suffixStrings(), jitterNumbers()] };
+ * ```
+ * ```html
+ * @for (item of data | mockMore: mockOptions; track item.id) {
+ *     {{ item.name }} – {{ item.price }}
+ * }
+ * ```
  *
  * @template T The type of array items.
  */
@@ -90,73 +169,182 @@ export class MockMorePipe<T> implements PipeTransform {
         mockLabel?: string
     ): T[];
 
+    transform(
+        value: T[],
+        options: MockMoreOptions<T>
+    ): T[];
+
     /**
      * Expands the input array to exceed a target size.
      *
      * Behavior:
      * - If the array is empty -> fills with dummy objects containing mock proxies for specified fields.
      * - If the array is smaller than the target size -> repeats the original data until it exceeds the target size.
+     *   Copies are cloned, re-keyed and varied as configured by `reindex` and `vary`.
      * - If already large enough -> returns the array unchanged.
      *
-     * Note: The final result may exceed the target size slightly due to batch duplication.
+     * Note: The final result may exceed the target size slightly due to batch duplication, unless `exact` is set.
      *
      * @param value The original array.
-     * @param fieldsOrField One or more field keys to populate with mock proxies.
+     * @param fieldsOrOptions One or more field keys to populate with mock proxies, or the {@link MockMoreOptions}.
      * @param targetSize Minimum number of items to reach (default: 100).
      * @param mockLabel String used when a mock proxy is coerced to string or displayed (default: `'mock'`).
      * @returns The expanded array.
      */
     transform(
         value: T[],
-        fieldsOrField?: (keyof T)[] | keyof T,
-        targetSize: number = 100,
-        mockLabel: string = 'mock'
+        fieldsOrOptions?: (keyof T)[] | keyof T | MockMoreOptions<T>,
+        targetSize?: number,
+        mockLabel?: string
     ): T[] {
-        const currentLength = value.length;
-
-        // Case 1: Empty array -> fill with dummy mock objects
-        if (currentLength === 0) {
-            const fields = Array.isArray(fieldsOrField)
-                ? fieldsOrField
-                : fieldsOrField ? [fieldsOrField] : [];
-
-            return Array.from({ length: targetSize }, (_, i) => {
-                const base: Record<string, any> = { id: i };
-                
-                if (fields && fields.length > 0) {
-                    for (const f of fields) {
-                        base[f as string] = createMock(mockLabel);
-                    }
+        const options: MockMoreOptions<T> = isOptions(fieldsOrOptions)
+            ? fieldsOrOptions
+            : {
+                fields: Array.isArray(fieldsOrOptions)
+                    ? fieldsOrOptions
+                    : fieldsOrOptions != null ? [fieldsOrOptions] : [],
+                targetSize,
+                mockLabel
+            };
+        return mockMore(value, options);
+    }
+
+}
+
+/**
+ * Checks whether the second argument of the pipe is a {@link MockMoreOptions} object.
+ */
+function isOptions<T>(arg: (keyof T)[] | keyof T | MockMoreOptions<T> | undefined): arg is MockMoreOptions<T> {
+    return typeof arg === 'object' && arg !== null && !Array.isArray(arg);
+}
+
+/**
+ * Expands the array as described by {@link MockMorePipe.transform}.
+ * Exposed as a function to reuse the same semantics outside of templates, e.g. in a mock backend.
+ *
+ * @param value The original array.
+ * @param options See {@link MockMoreOptions}.
+ * @returns The expanded array.
+ */
+export function mockMore<T>(value: T[], options: MockMoreOptions<T>): T[] {
+    const {
+        fields = [],
+        schema,
+        targetSize = 100,
+        mockLabel = 'mock',
+        seed = 1,
+        exact = false,
+        reindex = false,
+        vary,
+        recorder
+    } = options;
+    const currentLength = value.length;
+
+    // Case 1: Empty array -> fill with dummy mock objects
+    if (currentLength === 0) {
+        const random = createRandom(seed);
+        const generate = schema ? compileMockSchema(schema) : null;
+
+        return Array.from({ length: targetSize }, (_, i) => {
+            const base: Record<string, any> = { id: i };
+            
+            if (fields && fields.length > 0) {
+                for (const f of fields) {
+                    base[f as string] = recorder
+                        ? createMock(mockLabel, (path, called) => recorder.record(String(f), path, called))
+                        : createMock(mockLabel);
                 }
-                return base as T;
-            });
-        }
+            }
+            if (generate) {
+                Object.assign(base, generate({ random, index: i }));
+            }
+            return base as T;
+        });
+    }
 
-        // Case 2: Too small -> duplicate until exceeding target size
-        if (currentLength < targetSize) {
+    // Case 2: Too small -> duplicate until exceeding target size
+    if (currentLength < targetSize) {
+        const key = reindex === true ? 'id' : reindex ? String(reindex) : null;
+        const variations = vary ? [vary].flat() : [];
+
+        // Plain duplication, reusing the original references
+        if (key === null && variations.length === 0) {
             const result = [...value];
             while (result.length < targetSize) {
                 result.push(...value);
             }
-            return result;
+            return exact ? result.slice(0, targetSize) : result;
         }
-        
-        // Case 3: Already sufficient
-        return value;
+
+        const total = exact ? targetSize : Math.ceil(targetSize / currentLength) * currentLength;
+        const random = createRandom(seed);
+        const maxKey = key === null ? 0 : Math.max(0, ...value.map(item => Number(field(item, key)) || 0));
+        const usedKeys = new Set(key === null ? [] : value.map(item => field(item, key)));
+
+        return Array.from({ length: total }, (_, i) => {
+            const copy = Math.floor(i / currentLength);
+            const original = value[i % currentLength];
+            if (copy === 0) {
+                return original;
+            }
+
+            let clone = { ...original };
+            for (const variation of variations) {
+                clone = variation(clone, copy, { random, index: i });
+            }
+            // re-keyed after the variations, so that they cannot rewrite the unique key
+            if (key !== null) {
+                const originalKey = field(original, key);
+                let suffix = copy;
+                let newKey: unknown = typeof originalKey === 'number'
+                    ? maxKey + i - currentLength + 1
+                    : `${String(originalKey)}-${suffix}`;
+                // string keys may collide with existing ones, e.g. 'a' copied as 'a-1' next to an original 'a-1'
+                while (usedKeys.has(newKey)) {
+                    newKey = `${String(originalKey)}-${++suffix}`;
+                }
+                usedKeys.add(newKey);
+                (clone as Record<string, unknown>)[key] = newKey;
+            }
+            return clone;
+        });
     }
+    
+    // Case 3: Already sufficient
+    return exact ? value.slice(0, targetSize) : value;
+}
 
+/**
+ * Reads a field of an item by name.
+ */
+function field<T>(item: T, key: string): unknown {
+    return (item as Record<string, unknown>)[key];
 }
 
+/**
+ * Callback notified of the accesses to a mock proxy in recording mode.
+ *
+ * @param path The accessed property path, relative to the mocked field.
+ * @param called Whether the property at `path` was called as a function.
+ */
+type MockAccessListener = (path: readonly string[], called: boolean) => void;
+
 /**
  * Create a fully safe mock Proxy that:
  * - Never throws runtime errors on any property access or method call.
  * - Supports unlimited nesting (e.g. foo.bar.baz[0].id).
  * - Can be used safely in template bindings (e.g. Angular `{{foo.bar}}`).
  *
+ * If a listener is provided, every access is reported with its path, so each nested property
+ * gets its own proxy instead of sharing a single one.
+ *
  * @template T The intended type being mocked (for TypeScript typing convenience).
  * @returns A Proxy that safely absorbs any operation without throwing.
  */
-function createMock<T = any>(displayToken: string): T {
+function createMock<T = any>(displayToken: string, onAccess?: MockAccessListener, path: readonly string[] = []): T {
+
+    // nested proxies by property, only used in recording mode
+    const children = new Map<string, any>();
 
     const proxy: any = new Proxy(() => {}, {
 
@@ -171,15 +359,31 @@ function createMock<T = any>(displayToken: string): T {
                 return () => displayToken;
             }
 
-            // return mock to allow infinite safe chaining
-            return proxy;
+            if (!onAccess || typeof prop === 'symbol') {
+                // return mock to allow infinite safe chaining
+                return proxy;
+            }
+
+            // recording mode: report the access and return the proxy of the nested path
+            const childPath = [...path, prop];
+            onAccess(childPath, false);
+
+            let child = children.get(prop);
+            if (!child) {
+                child = createMock(displayToken, onAccess, childPath);
+                children.set(prop, child);
+            }
+            return child;
         },
 
         /*
          * Trap for function calls, e.g., `myProxy()`.
          * Return the same proxy so chained calls like `myProxy().foo.bar()` stay valid.
          */
-        apply: () => proxy,
+        apply: () => {
+            onAccess?.(path, true);
+            return proxy;
+        },
 
         /*
          * Trap for `Object.keys(myProxy)` or `for...in`.
@@ -0,0 +1,236 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * A node of the recorded access tree.
+ */
+interface PathNode {
+    children: Map<string, PathNode>;
+    called: boolean;
+}
+
+/**
+ * Options of the {@link MockAccessRecorder}.
+ */
+export interface MockAccessRecorderOptions {
+
+    /**
+     * Whether every newly accessed path is logged with `console.debug` (default: `false`).
+     */
+    log?: boolean;
+}
+
+/**
+ * Property names looked up by frameworks and runtimes rather than by templates, which are never recorded.
+ */
+const IGNORED_PROPERTIES = new Set(['then', 'toJSON', 'constructor', 'valueOf', 'toString', 'prototype']);
+
+/**
+ * Records which property paths a template reads from the mock proxies of the `mockMore` pipe,
+ * e.g. `profile.name.first` or `address.city`, to bootstrap real DTOs and mock schemas from prototypes.
+ *
+ * Array indexes are collapsed to `[]`, so `tags[0].label` and `tags[1].label` are recorded as `tags[].label`.
+ *
+ * Caution: Not intended for production. Should only be used in mock or visual testing environments.
+ *
+ * @example
+ * ```ts
+ * readonly recorder = new MockAccessRecorder({ log: true });
+ * readonly mockOptions: MockMoreOptions<User> = { fields: ['profile', 'address'], recorder: this.recorder };
+ *
+ * dumpMockShape(): void {
+ *     console.log(this.recorder.paths());                      // ['address.city', 'profile.name.first']
+ *     console.log(this.recorder.toInterface('profile'));       // export interface Profile { name: { first: unknown; }; }
+ *     console.log(JSON.stringify(this.recorder.toJson('address'))); // {"city":null}
+ * }
+ * ```
+ */
+export class MockAccessRecorder {
+
+    private readonly roots = new Map<string, PathNode>();
+
+    constructor(private readonly options: MockAccessRecorderOptions = {}) {}
+
+    /**
+     * Records an access to a mock proxy. Called by the `mockMore` pipe.
+     *
+     * @param field The mocked field.
+     * @param path The accessed property path, relative to the field.
+     * @param called Whether the property at `path` was called as a function.
+     */
+    record(field: string, path: readonly string[], called: boolean = false): void {
+        if (path.some(key => IGNORED_PROPERTIES.has(key))) {
+            return;
+        }
+
+        let isNew = !this.roots.has(field);
+        let node: PathNode = this.roots.get(field) ?? createNode();
+        this.roots.set(field, node);
+
+        for (const key of path) {
+            const normalized = /^\d+$/.test(key) ? '[]' : key;
+            let child: PathNode | undefined = node.children.get(normalized);
+            if (!child) {
+                child = createNode();
+                node.children.set(normalized, child);
+                isNew = true;
+            }
+            node = child;
+        }
+
+        if (called && !node.called) {
+            node.called = true;
+            isNew = true;
+        }
+
+        if (isNew && this.options.log) {
+            console.debug(`[mockMore] ${formatPath([field, ...path.map(key => /^\d+$/.test(key) ? '[]' : key)])}${called ? '()' : ''}`);
+        }
+    }
+
+    /**
+     * The mocked fields with at least one recorded access.
+     */
+    fields(): string[] {
+        return [...this.roots.keys()];
+    }
+
+    /**
+     * The recorded leaf paths, sorted, prefixed with their field.
+     *
+     * @param field Restricts the paths to a single field.
+     * @returns The paths, e.g. `['profile.name.first', 'profile.tags[].label']`.
+     */
+    paths(field?: string): string[] {
+        const result: string[] = [];
+        const visit = (node: PathNode, path: string[]): void => {
+            if (node.children.size === 0 || node.called) {
+                result.push(formatPath(path) + (node.called ? '()' : ''));
+            }
+            for (const [key, child] of node.children) {
+                visit(child, [...path, key]);
+            }
+        };
+
+        for (const [name, root] of this.roots) {
+            if (field === undefined || field === name) {
+                visit(root, [name]);
+            }
+        }
+        return result.sort();
+    }
+
+    /**
+     * Generates a JSON skeleton of a field, with `null` leaves.
+     *
+     * @param field The mocked field.
+     * @returns The skeleton, or `null` if nothing was recorded for the field.
+     */
+    toJson(field: string): unknown {
+        const root = this.roots.get(field);
+        return root ? toSkeleton(root) : null;
+    }
+
+    /**
+     * Generates a TypeScript interface of a field. Leaves are typed `unknown`, called properties as functions.
+     *
+     * @param field The mocked field.
+     * @param name The interface name (default: the field name in PascalCase).
+     * @returns The interface source.
+     */
+    toInterface(field: string, name: string = toPascalCase(field)): string {
+        const root = this.roots.get(field) ?? createNode();
+        return `export interface ${name} ${toObjectType(root, '')}\n`;
+    }
+
+    /**
+     * Forgets every recorded access.
+     */
+    clear(): void {
+        this.roots.clear();
+    }
+}
+
+function createNode(): PathNode {
+    return { children: new Map(), called: false };
+}
+
+/**
+ * Formats a path with dots, keeping the `[]` array markers attached to their parent.
+ */
+function formatPath(path: readonly string[]): string {
+    return path.reduce((result, key) => key === '[]' ? `${result}[]` : result ? `${result}.${key}` : key, '');
+}
+
+function toSkeleton(node: PathNode): unknown {
+    if (node.children.size === 0) {
+        return null;
+    }
+
+    const item = node.children.get('[]');
+    if (item && node.children.size === 1) {
+        return [toSkeleton(item)];
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of node.children) {
+        if (key !== '[]') {
+            result[key] = toSkeleton(child);
+        }
+    }
+    return result;
+}
+
+function toType(node: PathNode, indent: string): string {
+    let type: string;
+    if (node.children.size === 0) {
+        type = 'unknown';
+    } else if (node.children.has('[]') && node.children.size === 1) {
+        const itemType = toType(node.children.get('[]')!, indent);
+        type = /^[\w{]/.test(itemType) && !itemType.includes('=>') ? `${itemType}[]` : `(${itemType})[]`;
+    } else {
+        type = toObjectType(node, indent);
+    }
+
+    return node.called ? `(...args: unknown[]) => ${type}` : type;
+}
+
+function toObjectType(node: PathNode, indent: string): string {
+    const inner = indent + '    ';
+    const members = [...node.children]
+        .filter(([key]) => key !== '[]')
+        .map(([key, child]) => {
+            const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+            return `${inner}${name}: ${toType(child, inner)};`;
+        });
+    return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}';
+}
+
+function toPascalCase(text: string): string {
+    return text
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('') || 'Mock';
+}
@@ -0,0 +1,253 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Context passed to mock generator functions.
+ */
+export interface MockContext {
+
+    /**
+     * The seeded pseudo random number generator, returning a float in `[0, 1)`.
+     */
+    readonly random: () => number;
+
+    /**
+     * The index of the generated item.
+     */
+    readonly index: number;
+}
+
+/**
+ * A generator of mock values, either:
+ * - a generator expression such as `'person.fullName'`, `'number(0,1000)'` or `'array(word,0..5)'`, or
+ * - a function receiving the {@link MockContext}.
+ *
+ * Supported expressions:
+ * - `index` – the item index,
+ * - `uuid`, `boolean`, `word`, `sentence`, `paragraph`,
+ * - `person.firstName`, `person.lastName`, `person.fullName`, `internet.email`,
+ * - `address.city`, `address.street`, `company.name`,
+ * - `number(min,max[,decimals])` – a float, rounded to `decimals` (default: 2),
+ * - `integer(min,max)` – an integer, bounds included,
+ * - `date(from,to)` – a `Date` between two ISO dates (default: the year 2024),
+ * - `pick(a,b,c)` – one of the given strings,
+ * - `array(generator,min..max)` – an array of `min` to `max` generated values.
+ *
+ * @template V The type of generated values.
+ */
+export type MockGenerator<V = unknown> = string | ((context: MockContext) => V);
+
+/**
+ * A map from field names to the generators of their mock values.
+ *
+ * @template T The type of the mocked items.
+ */
+export type MockSchema<T> = { [K in keyof T]?: MockGenerator<T[K]> };
+
+/**
+ * A compiled generator, producing a value from a context.
+ */
+type CompiledGenerator = (context: MockContext) => unknown;
+
+const FIRST_NAMES = [
+    'Ann', 'Bob', 'Eve', 'Liam', 'Olivia', 'Noah', 'Emma', 'Sophia', 'Jackson', 'Isabella',
+    'Maximilian', 'Charlotte', 'Alexander', 'Wei', 'Yuki', 'Mohammed', 'Anastasia', 'Jo'
+];
+
+const LAST_NAMES = [
+    'Li', 'Ng', 'Smith', 'Johnson', 'Garcia', 'Müller', 'Tanaka', 'Kowalski', 'Rossi', 'Dubois',
+    'Andersson', 'Papadopoulos', 'Van der Berg', 'Wójcik-Nowakowska', 'Chen', 'Okafor'
+];
+
+const WORDS = [
+    'a', 'of', 'sun', 'lorem', 'ipsum', 'dolor', 'amet', 'layout', 'overflow', 'consectetur',
+    'adipiscing', 'incididunt', 'exercitation', 'extraordinarily', 'responsiveness', 'go', 'data',
+    'quick', 'brown', 'fox', 'jumps', 'internationalization', 'grid', 'tempor'
+];
+
+const CITIES = [
+    'Rome', 'Oslo', 'Taipei', 'New York', 'São Paulo', 'Kraków', 'Johannesburg', 'Llanfairpwllgwyngyll',
+    'Ho Chi Minh City', 'Zürich', 'Buenos Aires', 'Ulm'
+];
+
+const STREETS = ['Main St', 'Elm Street', 'Park Avenue', 'Rue de Rivoli', 'Königsallee', 'Old Kent Road', 'Via Appia'];
+
+const COMPANY_SUFFIXES = ['Inc.', 'LLC', 'GmbH', 'Group', 'Holdings', 'Technologies', 'and Sons'];
+
+/**
+ * Creates a seeded pseudo random number generator (mulberry32), returning floats in `[0, 1)`.
+ * The same seed always produces the same sequence, so generated mocks are reproducible.
+ *
+ * @param seed The seed of the sequence.
+ * @returns The random number generator.
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Compiles a schema into a function generating the mocked fields of an item.
+ * Generator expressions are parsed once, so an unknown expression throws immediately.
+ *
+ * @param schema The schema to compile.
+ * @returns A function returning the generated fields for a context.
+ */
+export function compileMockSchema<T>(schema: MockSchema<T>): (context: MockContext) => Partial<T> {
+    const generators = Object.entries(schema as Record<string, MockGenerator>)
+        .map(([field, generator]) => [field, compileGenerator(generator)] as const);
+
+    return context => {
+        const result: Record<string, unknown> = {};
+        for (const [field, generate] of generators) {
+            result[field] = generate(context);
+        }
+        return result as Partial<T>;
+    };
+}
+
+/**
+ * Compiles a generator expression or function.
+ */
+function compileGenerator(generator: MockGenerator): CompiledGenerator {
+    if (typeof generator === 'function') {
+        return generator;
+    }
+
+    const expression = generator.trim();
+    const open = expression.indexOf('(');
+    const name = open < 0 ? expression : expression.slice(0, open);
+    const args = open < 0 ? [] : splitArguments(expression.slice(open + 1, expression.lastIndexOf(')')));
+
+    switch (name) {
+        case 'index':
+            return ({ index }) => index;
+        case 'uuid':
+            return ({ random }) => 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+                const r = Math.floor(random() * 16);
+                return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+            });
+        case 'boolean':
+            return ({ random }) => random() < 0.5;
+        case 'word':
+            return ({ random }) => pick(random, WORDS);
+        case 'sentence':
+            return ({ random }) => capitalize(words(random, integer(random, 3, 12))) + '.';
+        case 'paragraph':
+            return ({ random }) => Array.from(
+                { length: integer(random, 2, 5) },
+                () => capitalize(words(random, integer(random, 3, 12))) + '.'
+            ).join(' ');
+        case 'person.firstName':
+            return ({ random }) => pick(random, FIRST_NAMES);
+        case 'person.lastName':
+            return ({ random }) => pick(random, LAST_NAMES);
+        case 'person.fullName':
+            return ({ random }) => `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`;
+        case 'internet.email':
+            return ({ random, index }) =>
+                `${pick(random, FIRST_NAMES)}.${pick(random, LAST_NAMES)}${index}@example.com`
+                    .toLowerCase()
+                    .replace(/[^a-z0-9.@-]/g, '');
+        case 'address.city':
+            return ({ random }) => pick(random, CITIES);
+        case 'address.street':
+            return ({ random }) => `${integer(random, 1, 9999)} ${pick(random, STREETS)}`;
+        case 'company.name':
+            return ({ random }) => `${pick(random, LAST_NAMES)} ${pick(random, COMPANY_SUFFIXES)}`;
+        case 'number': {
+            const [min = 0, max = 1, decimals = 2] = args.map(Number);
+            return ({ random }) => Number((min + random() * (max - min)).toFixed(decimals));
+        }
+        case 'integer': {
+            const [min = 0, max = 100] = args.map(Number);
+            return ({ random }) => integer(random, min, max);
+        }
+        case 'date': {
+            const from = new Date(args[0] ?? '2024-01-01').getTime();
+            const to = new Date(args[1] ?? '2024-12-31').getTime();
+            return ({ random }) => new Date(from + Math.floor(random() * (to - from)));
+        }
+        case 'pick':
+            return ({ random }) => pick(random, args);
+        case 'array': {
+            const item = compileGenerator(args[0] ?? 'word');
+            const [min = 0, max = min] = (args[1] ?? '0..5').split('..').map(Number);
+            return context => Array.from({ length: integer(context.random, min, max) }, () => item(context));
+        }
+        default:
+            throw new Error(`Unknown mock generator: '${generator}'`);
+    }
+}
+
+/**
+ * Splits the arguments of a generator expression on top-level commas,
+ * so that nested expressions such as `array(number(0,10),1..3)` are kept intact.
+ */
+function splitArguments(args: string): string[] {
+    const result: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of args) {
+        if (char === ',' && depth === 0) {
+            result.push(current.trim());
+            current = '';
+            continue;
+        }
+        if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        }
+        current += char;
+    }
+
+    if (current.trim() !== '') {
+        result.push(current.trim());
+    }
+    return result;
+}
+
+function integer(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<V>(random: () => number, values: V[]): V {
+    return values[Math.floor(random() * values.length)];
+}
+
+function words(random: () => number, count: number): string {
+    return Array.from({ length: count }, () => pick(random, WORDS)).join(' ');
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
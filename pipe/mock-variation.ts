@@ -0,0 +1,78 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { MockContext } from './mock-schema';
+
+/**
+ * A hook applied to every duplicated copy of an item, to make the copies look distinct.
+ * Receives a shallow clone of the original item, that may be mutated or replaced.
+ *
+ * @param item The cloned item.
+ * @param copy The copy number, starting at `1` for the first duplicate.
+ * @param context The seeded random number generator and the index of the item in the result.
+ * @returns The varied item.
+ *
+ * @template T The type of the mocked items.
+ */
+export type MockVariation<T> = (item: T, copy: number, context: MockContext) => T;
+
+/**
+ * Creates a variation that appends the copy number to string fields, e.g. `'Alice'` -> `'Alice (2)'`.
+ *
+ * @param fields The fields to vary. Defaults to every string field except `id`.
+ * @returns The variation.
+ */
+export function suffixStrings<T>(fields?: (keyof T)[]): MockVariation<T> {
+    return (item, copy) => {
+        const record = item as Record<string, unknown>;
+        for (const field of fields?.map(String) ?? Object.keys(record).filter(key => key !== 'id')) {
+            if (typeof record[field] === 'string') {
+                record[field] = `${record[field]} (${copy + 1})`;
+            }
+        }
+        return item;
+    };
+}
+
+/**
+ * Creates a variation that randomly shifts number fields by up to `ratio` of their value,
+ * e.g. `100` with a ratio of `0.1` becomes a value between `90` and `110`. Integers stay integers.
+ *
+ * @param ratio The maximum relative change (default: 0.1).
+ * @param fields The fields to vary. Defaults to every number field except `id`.
+ * @returns The variation.
+ */
+export function jitterNumbers<T>(ratio: number = 0.1, fields?: (keyof T)[]): MockVariation<T> {
+    return (item, _, { random }) => {
+        const record = item as Record<string, unknown>;
+        for (const field of fields?.map(String) ?? Object.keys(record).filter(key => key !== 'id')) {
+            const value = record[field];
+            if (typeof value === 'number') {
+                const jittered = value * (1 + (random() * 2 - 1) * ratio);
+                record[field] = Number.isInteger(value) ? Math.round(jittered) : jittered;
+            }
+        }
+        return item;
+    };
+}
@@ -24,19 +24,106 @@
 
 import { Pipe, PipeTransform } from '@angular/core';
 
+/**
+ * Tolerance used when computing the length of a range, so that float steps such as `0.1`
+ * do not produce an extra item due to rounding errors (e.g. `0.3 / 0.1 === 2.9999999999999996`).
+ */
+const EPSILON = 1e-10;
+
+/**
+ * Counts the decimal places of a number, including those written in exponent notation (e.g. `1e-7`).
+ * Capped to 100, the maximum supported by `toFixed`.
+ */
+function decimalPlaces(value: number): number {
+    const [mantissa, exponent = '0'] = String(value).split('e');
+    const fraction = mantissa.split('.')[1] ?? '';
+    return Math.min(100, Math.max(0, fraction.length - Number(exponent)));
+}
+
+/**
+ * A lazy, immutable range of numbers similar to Python's `range()`.
+ * Values are computed on demand, so even huge ranges take constant memory.
+ *
+ * Equivalent to `for (let i = start; i < stop; i += step)` (or `i > stop` for a negative step),
+ * with float steps computed as `start + index * step` to avoid accumulating rounding errors.
+ *
+ * Example usage:
+ * ```ts
+ * const range = new NumberRange(0, 1e6, 2);
+ * range.length;  // 500000
+ * range.at(10);  // 20
+ * for (const i of range) { ... }
+ * ```
+ */
+export class NumberRange implements Iterable<number> {
+
+    /**
+     * The number of values in the range.
+     */
+    readonly length: number;
+
+    /**
+     * The decimal places of `start` and `step`, the precision values are rounded to.
+     * Rounding relative to the step keeps the fraction of large values (e.g. `1e13 + 0.5`).
+     */
+    private readonly decimals: number;
+
+    /**
+     * @throws Error if any argument is not a finite number or if `step === 0`.
+     */
+    constructor(readonly start: number, readonly stop: number, readonly step: number = 1) {
+        assertRangeArguments(start, stop, step);
+        this.length = Math.max(0, Math.ceil((stop - start) / step - EPSILON));
+        this.decimals = Math.max(decimalPlaces(start), decimalPlaces(step));
+    }
+
+    /**
+     * Returns the value at the given position, or `undefined` if out of range.
+     * Negative positions count back from the end, like `Array.prototype.at`.
+     */
+    at(index: number): number | undefined {
+        const position = index < 0 ? this.length + index : index;
+        if (!Number.isInteger(position) || position < 0 || position >= this.length) {
+            return undefined;
+        }
+
+        const value = this.start + position * this.step;
+        return this.decimals === 0 ? value : Number(value.toFixed(this.decimals));
+    }
+
+    /**
+     * Iterates over the values of the range.
+     */
+    *[Symbol.iterator](): Iterator<number> {
+        for (let i = 0; i < this.length; i++) {
+            yield this.at(i)!;
+        }
+    }
+
+    /**
+     * Materialises the range into an array.
+     */
+    toArray(): number[] {
+        return Array.from({ length: this.length }, (_, i) => this.at(i)!);
+    }
+}
+
 /**
  * Generates an array of numbers similar to Python's `range()`.
  * This is optimized for `range(stop)`, using `Array.from` for better performance,
- * while keeping `range(start, stop, step)` flexible via `for` loop.
+ * while keeping `range(start, stop, step)` flexible with float steps.
  *
  * Equivalent to `for (let i = start; i < stop; i += step)`.
  *
+ * For large ranges, prefer the `lazyRange` pipe or the `*range` directive, which do not allocate the whole array.
+ *
  * Example usage:
  * ```
  * <div *ngFor="let i of (5 | range)">{{ i }}</div>   <!-- 0, 1, 2, 3, 4 -->
  * <div *ngFor="let i of (2 | range:5)">{{ i }}</div>  <!-- 2, 3, 4 -->
  * <div *ngFor="let i of (1 | range:10:2)">{{ i }}</div> <!-- 1, 3, 5, 7, 9 -->
  * <div *ngFor="let i of (10 | range:1:-2)">{{ i }}</div> <!-- 10, 8, 6, 4, 2 -->
+ * <div *ngFor="let i of (0 | range:0.5:0.1)">{{ i }}</div> <!-- 0, 0.1, 0.2, 0.3, 0.4 -->
  * ```
  */
 @Pipe({
@@ -52,32 +139,60 @@ export class RangePipe implements PipeTransform {
 
     /**
      * Generates an array from `start` to `stop - 1`, incrementing by `step`.
-     * Optimized for `range(stop)`, using `Array.from` for better performance.
-     * If `step === 0`, an error is thrown to prevent infinite loops.
+     * Optimized for integer `range(stop)`, using `Array.from` for better performance.
+     * If any argument is not a finite number or `step === 0`, an error is thrown to prevent infinite loops.
      */
     transform(startOrStop: number, stop?: number, step: number = 1): number[] {
         if (stop === undefined) {
+            assertRangeArguments(0, startOrStop, 1);
             // Optimized case: range(stop) → use Array.from for better performance
-            return Array.from({ length: startOrStop }, (_, i) => i);
+            return Array.from({ length: Math.max(0, Math.ceil(startOrStop)) }, (_, i) => i);
         }
 
         // General case: range(start, stop, step)
-        const start = startOrStop;
-        if (step === 0) {
-            throw new Error('Step cannot be zero');
-        }
+        return new NumberRange(startOrStop, stop, step).toArray();
+    }
+}
 
-        const result: number[] = [];
-        if (step > 0) {
-            for (let i = start; i < stop; i += step) {
-                result.push(i);
-            }
-        } else {
-            for (let i = start; i > stop; i += step) {
-                result.push(i);
-            }
-        }
+/**
+ * Same as the `range` pipe, but returns a lazy {@link NumberRange} instead of an array,
+ * so that huge ranges do not allocate all their values on every change detection.
+ *
+ * Example usage:
+ * ```
+ * @for (i of 1e6 | lazyRange; track i) { ... }
+ * @for (i of 0 | lazyRange:1e6:2; track i) { ... }
+ * ```
+ */
+@Pipe({
+    name: 'lazyRange',
+    standalone: true
+})
+export class LazyRangePipe implements PipeTransform {
 
-        return result;
+    transform(stop: number): NumberRange;
+    transform(start: number, stop: number): NumberRange;
+    transform(start: number, stop: number, step: number): NumberRange;
+
+    /**
+     * Creates a lazy range from `start` to `stop - 1`, incrementing by `step`.
+     * If any argument is not a finite number or `step === 0`, an error is thrown.
+     */
+    transform(startOrStop: number, stop?: number, step: number = 1): NumberRange {
+        return stop === undefined
+            ? new NumberRange(0, startOrStop, 1)
+            : new NumberRange(startOrStop, stop, step);
+    }
+}
+
+/**
+ * Validates the arguments of a range, shared by every overload.
+ */
+function assertRangeArguments(start: number, stop: number, step: number): void {
+    if (!Number.isFinite(start) || !Number.isFinite(stop) || !Number.isFinite(step)) {
+        throw new Error(`Range arguments must be finite numbers, got (${start}, ${stop}, ${step})`);
+    }
+    if (step === 0) {
+        throw new Error('Step cannot be zero');
     }
 }
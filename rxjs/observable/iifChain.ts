@@ -22,7 +22,54 @@
  * SOFTWARE.
  */
 
-import { Observable, defer, isObservable, of } from 'rxjs';
+import { Injector, Signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import {
+    EMPTY,
+    Observable,
+    defaultIfEmpty,
+    defer,
+    distinctUntilChanged,
+    filter,
+    from,
+    isObservable,
+    map,
+    merge,
+    of,
+    scan,
+    switchMap,
+    take
+} from 'rxjs';
+
+/**
+ * A condition of an `iifChain` case, either:
+ * - a function returning a `boolean`, an `Observable<boolean>` or a `Promise<boolean>`, called at subscription time, or
+ * - an `Observable<boolean>` or a `Promise<boolean>`.
+ *
+ * Only the first emission of an Observable condition is used; an Observable completing without emitting is `false`.
+ */
+export type IifCondition =
+    | (() => boolean | Observable<boolean> | Promise<boolean>)
+    | Observable<boolean>
+    | Promise<boolean>;
+
+/**
+ * The result of an `iifChain` case, either a value, an Observable, or a factory returning one of those.
+ * Factories are only called when their case is selected, so unused branches never create e.g. HTTP calls.
+ *
+ * Note: Since functions are treated as factories, a function value has to be returned from a factory.
+ */
+export type IifResult<T> = T | Observable<T> | (() => T | Observable<T>);
+
+/**
+ * The error emitted by `iifChain` and `iifMatch` Observables when no case matches and no fallback is provided.
+ */
+export class NoCaseMatchedError extends Error {
+    constructor(message: string = 'No condition matched and no else case provided.') {
+        super(message);
+        this.name = 'NoCaseMatchedError';
+    }
+}
 
 /**
  * A builder for creating an Observable that conditionally emits based on multiple predicates,
@@ -35,27 +82,33 @@ import { Observable, defer, isObservable, of } from 'rxjs';
  *   .case(() => age >= 18, 'Adult')
  *   .else('Minor')
  *   .build();
+ *
+ * const dashboard$ = iifChain<Dashboard>()
+ *   .case(auth.isAdmin$, () => http.get<Dashboard>('/api/admin/dashboard'))
+ *   .case(() => featureFlags.isEnabled('beta'), () => http.get<Dashboard>('/api/beta/dashboard'))
+ *   .else(() => http.get<Dashboard>('/api/dashboard'))
+ *   .build();
  * ```
  *
- * Each condition is evaluated at subscription time.
+ * Each condition is evaluated at subscription time, in order, and the evaluation stops at the first match.
  *
  * @template T The value type emitted by the resulting Observable.
  */
 class IifChainBuilder<T> {
-    private cases: { condition: () => boolean; result: T | Observable<T> }[] = [];
-    private elseCase: T | Observable<T> | null = null;
+    private cases: { condition: IifCondition; result: IifResult<T> }[] = [];
+    private elseCase: { result: IifResult<T> } | null = null;
 
     /**
      * Adds a conditional case to the chain.
      *
-     * If the provided condition function returns `true` at subscription time,
+     * If the provided condition is `true` at subscription time,
      * the associated result will be emitted (or flattened if it's an Observable).
      *
-     * @param condition A function returning a boolean, evaluated at subscription time.
-     * @param result A value or Observable to be returned if the condition is true.
+     * @param condition A boolean function, an Observable or a Promise, evaluated at subscription time.
+     * @param result A value, an Observable, or a factory of those, used if the condition is true.
      * @returns This builder instance for method chaining.
      */
-    case(condition: () => boolean, result: T | Observable<T>): this {
+    case(condition: IifCondition, result: IifResult<T>): this {
         this.cases.push({ condition, result });
         return this;
     }
@@ -63,13 +116,13 @@ class IifChainBuilder<T> {
     /**
      * Sets the fallback result to be emitted when none of the conditions match.
      *
-     * If no `else` is specified and no condition matches, an error will be thrown upon subscription.
+     * If no `else` is specified and no condition matches, the Observable errors with a {@link NoCaseMatchedError}.
      *
-     * @param result A value or Observable to return if no conditions are matched.
+     * @param result A value, an Observable, or a factory of those, used if no conditions are matched.
      * @returns This builder instance for method chaining.
      */
-    else(result: T | Observable<T>): this {
-        this.elseCase = result;
+    else(result: IifResult<T>): this {
+        this.elseCase = { result };
         return this;
     }
 
@@ -77,32 +130,103 @@ class IifChainBuilder<T> {
      * Constructs the final Observable from the defined conditions and fallback.
      *
      * At the moment of subscription, conditions are evaluated in order and the first matching result is emitted.
-     * If none match and no `else` is provided, the Observable errors.
+     * If none match and no `else` is provided, the Observable errors with a {@link NoCaseMatchedError}.
+     * The Observable stays synchronous as long as the conditions and the selected result are.
      *
      * @returns An Observable emitting the selected result based on the conditions.
      */
     build(): Observable<T> {
-        return defer(() => {
-            for (const { condition, result } of this.cases) {
-                if (condition()) {
-                    return this.toObservable(result);
+        const cases = [...this.cases];
+        const elseCase = this.elseCase;
+
+        const evaluate = (index: number): Observable<T> => {
+            if (index >= cases.length) {
+                if (elseCase !== null) {
+                    return resolveResult(elseCase.result);
                 }
+                throw new NoCaseMatchedError();
             }
-            if (this.elseCase !== null) {
-                return this.toObservable(this.elseCase);
-            }
-            throw new Error('No condition matched and no else case provided.');
+
+            const { condition, result } = cases[index];
+            return evaluateCondition(condition).pipe(
+                switchMap(matched => matched ? resolveResult(result) : defer(() => evaluate(index + 1)))
+            );
+        };
+
+        return defer(() => evaluate(0));
+    }
+
+    /**
+     * Constructs an Observable that re-evaluates the cases whenever a condition emits.
+     *
+     * Unlike `build()`, every emission of an Observable condition is used, not only the first one.
+     * The output switches to the result of the first truthy case whenever it changes, tearing down
+     * the previous branch like `switchMap`. The selection is made as soon as it is certain:
+     * a truthy case does not wait for the conditions of the cases after it.
+     * If no case is truthy and no `else` is provided, the previous branch is torn down and nothing is emitted
+     * until a condition becomes truthy: unlike `build()`, no {@link NoCaseMatchedError} is thrown,
+     * since it would end the stream before later condition changes.
+     *
+     * Example:
+     * ```ts
+     * const toolbar$ = iifChain<Toolbar>()
+     *   .case(permissions.canEdit$, () => editToolbar$)
+     *   .case(featureFlags.readOnlyPreview$, () => previewToolbar$)
+     *   .else(defaultToolbar)
+     *   .buildReactive();
+     * ```
+     *
+     * @returns An Observable emitting the results of the currently selected case.
+     */
+    buildReactive(): Observable<T> {
+        const cases = [...this.cases];
+        const elseCase = this.elseCase;
+
+        return defer(() => {
+            const conditions = cases.map(({ condition }, index) => toConditionStream(condition).pipe(
+                map(matched => ({ index, matched }))
+            ));
+
+            return merge(...conditions).pipe(
+                // the latest value of every condition, `undefined` until it emits
+                scan((values, { index, matched }) => {
+                    const next = [...values];
+                    next[index] = matched;
+                    return next;
+                }, new Array<boolean | undefined>(cases.length).fill(undefined)),
+                map(selectCase),
+                filter((selected): selected is number => selected !== undefined),
+                // without conditions, the else case is selected right away
+                defaultIfEmpty(-1),
+                distinctUntilChanged(),
+                switchMap(selected => {
+                    if (selected >= 0) {
+                        return resolveResult(cases[selected].result);
+                    }
+                    if (elseCase !== null) {
+                        return resolveResult(elseCase.result);
+                    }
+                    return EMPTY;
+                })
+            );
         });
     }
 
     /**
-     * Ensures the result is returned as an Observable.
+     * Constructs a signal of the results of {@link buildReactive}, for use in components.
+     *
+     * Must be called in an injection context (e.g. a field initializer), unless an `injector` is provided.
+     * The subscription is cleaned up when the injection context is destroyed.
      *
-     * @param value A value or Observable.
-     * @returns The value wrapped in an Observable if it's not already one.
+     * @param options The value of the signal until the first result, and the injector to use outside of an injection context.
+     * @returns A signal of the results of the currently selected case.
      */
-    private toObservable(value: T | Observable<T>): Observable<T> {
-        return isObservable(value) ? value : of(value);
+    buildSignal(options: { initialValue?: T; injector?: Injector } = {}): Signal<T | undefined> {
+        const results$: Observable<T | undefined> = this.buildReactive();
+        return toSignal(results$, {
+            initialValue: options.initialValue,
+            injector: options.injector
+        });
     }
 }
 
@@ -117,3 +241,197 @@ class IifChainBuilder<T> {
 export function iifChain<T>(): IifChainBuilder<T> {
     return new IifChainBuilder<T>();
 }
+
+/**
+ * A pattern of an `iifMatch` case: an object whose properties must all equal (`===`) the matched value's.
+ */
+type MatchPattern<V> = V extends object ? { [K in keyof V]?: V[K] } : never;
+
+/**
+ * A builder for creating an Observable that emits based on the shape of a value,
+ * similar to a `switch` over a discriminated union.
+ * Each case narrows the value passed to its result factory.
+ *
+ * Example:
+ * ```ts
+ * type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
+ *
+ * const area$ = iifMatch(shape)
+ *   .when({ kind: 'circle' }, circle => Math.PI * circle.radius ** 2)
+ *   .when((s): s is Extract<Shape, { kind: 'square' }> => s.kind === 'square', square => square.size ** 2)
+ *   .build();
+ * ```
+ *
+ * @template V The type of the matched value.
+ * @template T The union of the value types emitted by the cases.
+ */
+class IifMatchBuilder<V, T = never> {
+    private cases: { test: (value: V) => boolean; result: (value: any) => unknown }[] = [];
+    private otherwiseCase: ((value: V) => unknown) | null = null;
+
+    constructor(private readonly value: V | (() => V)) {}
+
+    /**
+     * Adds a case matching a pattern object, e.g. `{ kind: 'circle' }`.
+     *
+     * @param pattern The properties the value must have.
+     * @param result A factory receiving the narrowed value, returning a value or an Observable.
+     * @returns This builder, with the result type added to the emitted type.
+     */
+    when<const P extends MatchPattern<V>, R>(
+        pattern: P,
+        result: (value: Extract<V, P>) => R | Observable<R>
+    ): IifMatchBuilder<V, T | R>;
+
+    /**
+     * Adds a case matching a type guard.
+     *
+     * @param guard A type guard, narrowing the value passed to the result factory.
+     * @param result A factory receiving the narrowed value, returning a value or an Observable.
+     * @returns This builder, with the result type added to the emitted type.
+     */
+    when<S extends V, R>(
+        guard: (value: V) => value is S,
+        result: (value: S) => R | Observable<R>
+    ): IifMatchBuilder<V, T | R>;
+
+    /**
+     * Adds a case matching a predicate.
+     *
+     * @param predicate A function returning `true` if the case matches.
+     * @param result A factory receiving the value, returning a value or an Observable.
+     * @returns This builder, with the result type added to the emitted type.
+     */
+    when<R>(
+        predicate: (value: V) => boolean,
+        result: (value: V) => R | Observable<R>
+    ): IifMatchBuilder<V, T | R>;
+
+    when(
+        patternOrPredicate: object | ((value: V) => boolean),
+        result: (value: any) => unknown
+    ): IifMatchBuilder<V, unknown> {
+        const test = typeof patternOrPredicate === 'function'
+            ? patternOrPredicate as (value: V) => boolean
+            : (value: V) => matchesPattern(value, patternOrPredicate);
+
+        this.cases.push({ test, result });
+        return this;
+    }
+
+    /**
+     * Sets the fallback used when none of the cases match.
+     *
+     * If no `otherwise` is specified and no case matches, the Observable errors with a {@link NoCaseMatchedError}.
+     *
+     * @param result A factory receiving the value, returning a value or an Observable.
+     * @returns This builder, with the result type added to the emitted type.
+     */
+    otherwise<R>(result: (value: V) => R | Observable<R>): IifMatchBuilder<V, T | R> {
+        this.otherwiseCase = result;
+        return this as IifMatchBuilder<V, T | R>;
+    }
+
+    /**
+     * Constructs the final Observable from the defined cases and fallback.
+     *
+     * At the moment of subscription, the cases are tested in order against the value,
+     * and only the result factory of the first matching case is called.
+     *
+     * @returns An Observable emitting the result of the matching case.
+     */
+    build(): Observable<T> {
+        const cases = [...this.cases];
+        const otherwiseCase = this.otherwiseCase;
+
+        return defer(() => {
+            const value = typeof this.value === 'function' ? (this.value as () => V)() : this.value;
+
+            const matched = cases.find(({ test }) => test(value))?.result ?? otherwiseCase;
+            if (matched === null) {
+                throw new NoCaseMatchedError('No case matched and no otherwise case provided.');
+            }
+
+            const result = matched(value) as T | Observable<T>;
+            return isObservable(result) ? result : of(result);
+        });
+    }
+}
+
+/**
+ * Factory function to create an `IifMatchBuilder` instance.
+ *
+ * Allows chaining of `.when()` and `.otherwise()` methods to match a value against patterns and type guards.
+ *
+ * @template V The type of the matched value.
+ * @param value The value to match, or a function returning it at subscription time.
+ *              Note: A function value has to be wrapped in a function.
+ * @returns A new instance of `IifMatchBuilder<V>`.
+ */
+export function iifMatch<V>(value: V | (() => V)): IifMatchBuilder<V> {
+    return new IifMatchBuilder<V>(value);
+}
+
+/**
+ * Evaluates a condition as an Observable emitting a single boolean.
+ */
+function evaluateCondition(condition: IifCondition): Observable<boolean> {
+    return conditionSource(condition).pipe(take(1), map(Boolean), defaultIfEmpty(false));
+}
+
+/**
+ * Calls a condition function, and wraps its result in an Observable.
+ * Only Observables and Promises are subscribed to; any other value (e.g. `undefined`, `null` or `0`
+ * returned by a function not typed as a condition) is coerced to a boolean, like `if (condition())`.
+ */
+function conditionSource(condition: IifCondition): Observable<unknown> {
+    const evaluated: unknown = typeof condition === 'function' ? condition() : condition;
+    return isObservable(evaluated) || evaluated instanceof Promise ? from(evaluated) : of(!!evaluated);
+}
+
+/**
+ * Turns a condition into a stream of booleans, keeping every emission of an Observable condition.
+ * An Observable completing without emitting is `false`, so that the cases after it can be selected.
+ */
+function toConditionStream(condition: IifCondition): Observable<boolean> {
+    return conditionSource(condition).pipe(map(Boolean), defaultIfEmpty(false));
+}
+
+/**
+ * Selects the first truthy case from the latest condition values.
+ *
+ * @returns The index of the selected case, `-1` if every condition is falsy,
+ *          or `undefined` while a condition before the first truthy one has not emitted yet.
+ */
+function selectCase(values: (boolean | undefined)[]): number | undefined {
+    for (let i = 0; i < values.length; i++) {
+        if (values[i] === undefined) {
+            return undefined;
+        }
+        if (values[i]) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Ensures the result is returned as an Observable, calling it first if it's a factory.
+ *
+ * @param result A value, an Observable, or a factory of those.
+ * @returns The value wrapped in an Observable if it's not already one.
+ */
+function resolveResult<T>(result: IifResult<T>): Observable<T> {
+    const value = typeof result === 'function' ? (result as () => T | Observable<T>)() : result;
+    return isObservable(value) ? value : of(value);
+}
+
+/**
+ * Checks whether every property of the pattern equals the value's.
+ */
+function matchesPattern(value: unknown, pattern: object): boolean {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    return Object.entries(pattern).every(([key, expected]) => (value as Record<string, unknown>)[key] === expected);
+}
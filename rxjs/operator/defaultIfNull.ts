@@ -22,16 +22,65 @@
  * SOFTWARE.
  */
 
-import { OperatorFunction } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { isObservable, MonoTypeOperatorFunction, Observable, of, OperatorFunction } from 'rxjs';
+import { concatMap, first, map } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
+
+export function defaultIfNull<T>(defaultValue: T, nullishness?: 'both'): OperatorFunction<T | null | undefined, T>;
+export function defaultIfNull<T>(defaultValue: T, nullishness: 'null'): OperatorFunction<T | null, T>;
+export function defaultIfNull<T>(defaultValue: T, nullishness: 'undefined'): OperatorFunction<T | undefined, T>;
+export function defaultIfNull<T>(defaultValue: T, nullishness: (value: T) => boolean): MonoTypeOperatorFunction<T>;
 
 /**
  * Replaces null or undefined values with a provided default value.
  * Ensures downstream always receives a non-null value.
  *
  * @param defaultValue The value to use if the source emits null or undefined.
+ * @param nullishness Which values are replaced (default: `'both'`), see {@link Nullishness}.
  * @returns OperatorFunction that replaces null/undefined with the default.
  */
-export function defaultIfNull<T>(defaultValue: T): OperatorFunction<T | null | undefined, T> {
-    return map(value => value ?? defaultValue);
+export function defaultIfNull<T>(defaultValue: T, nullishness: Nullishness<any> = 'both'): OperatorFunction<T | null | undefined, T> {
+    return map(value => isNullish(value, nullishness) ? defaultValue : value as T);
+}
+
+export function defaultIfNullWith<T>(
+    defaultFactory: (() => T | Observable<T>) | Observable<T>,
+    nullishness?: 'both'
+): OperatorFunction<T | null | undefined, T>;
+export function defaultIfNullWith<T>(
+    defaultFactory: (() => T | Observable<T>) | Observable<T>,
+    nullishness: 'null'
+): OperatorFunction<T | null, T>;
+export function defaultIfNullWith<T>(
+    defaultFactory: (() => T | Observable<T>) | Observable<T>,
+    nullishness: 'undefined'
+): OperatorFunction<T | undefined, T>;
+export function defaultIfNullWith<T>(
+    defaultFactory: (() => T | Observable<T>) | Observable<T>,
+    nullishness: (value: T) => boolean
+): MonoTypeOperatorFunction<T>;
+
+/**
+ * Replaces null or undefined values with a lazily computed or asynchronous default value.
+ * The factory is only called, or the Observable only subscribed, when a replacement is needed,
+ * and the first value it emits is used. The order of the emissions is preserved.
+ * A default Observable that completes without emitting errors the stream with an `EmptyError`,
+ * rather than silently dropping the replaced emission.
+ *
+ * @param defaultFactory A function returning the default value or an Observable of it, or an Observable of it.
+ * @param nullishness Which values are replaced (default: `'both'`), see {@link Nullishness}.
+ * @returns OperatorFunction that replaces null/undefined with the computed default.
+ */
+export function defaultIfNullWith<T>(
+    defaultFactory: (() => T | Observable<T>) | Observable<T>,
+    nullishness: Nullishness<any> = 'both'
+): OperatorFunction<T | null | undefined, T> {
+    return concatMap(value => {
+        if (!isNullish(value, nullishness)) {
+            return of(value as T);
+        }
+
+        const fallback = isObservable(defaultFactory) ? defaultFactory : defaultFactory();
+        return isObservable(fallback) ? fallback.pipe(first()) : of(fallback);
+    });
 }
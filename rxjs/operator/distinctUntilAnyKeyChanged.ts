@@ -23,28 +23,101 @@
  */
 
 import { distinctUntilChanged, MonoTypeOperatorFunction } from 'rxjs';
+import { deepEqual } from '../../utils/deepEqual';
+
+/**
+ * Options of {@link distinctUntilAnyKeyChanged}.
+ *
+ * @template T The type of the compared objects.
+ */
+export interface DistinctKeysOptions<T> {
+
+    /**
+     * The keys or dotted key paths (e.g. `'filter.page'`) to monitor.
+     * If none provided, uses the keys of `comparators`, or else all keys of both previous and current values.
+     */
+    keys?: (keyof T | string)[];
+
+    /**
+     * Comparators by key or key path, returning `true` if both values are equal,
+     * e.g. `{ user: (a, b) => a?.id === b?.id, tags: shallowEqual }`.
+     */
+    comparators?: Partial<Record<keyof T | string, (prev: any, curr: any) => boolean>>;
+
+    /**
+     * Whether keys without a comparator are compared with {@link deepEqual} instead of `===` (default: `false`).
+     */
+    deep?: boolean;
+
+    /**
+     * Called with the changed keys whenever a value is emitted because of a change.
+     */
+    onChange?: (changedKeys: (keyof T | string)[], prev: T, curr: T) => void;
+}
+
+export function distinctUntilAnyKeyChanged<T, K extends keyof T>(...keys: K[]): MonoTypeOperatorFunction<T>;
+export function distinctUntilAnyKeyChanged<T>(options: DistinctKeysOptions<T>): MonoTypeOperatorFunction<T>;
 
 /**
  * Emits the value only when any of the specified object keys change.
  * Performs a shallow comparison of the specified keys. If no keys are provided,
  * all keys from both previous and current values are used for comparison.
  *
+ * With {@link DistinctKeysOptions}, keys can be nested paths, compared deeply or with custom comparators,
+ * and the changed keys can be reported.
+ *
  * @param keys - The keys of the object to monitor for changes. If none provided, uses all keys to compare.
  * @returns A {@link MonoTypeOperatorFunction} that filters out consecutive duplicate objects based on the specified keys.
  *
  * @example
  * ```typescript
  * distinctUntilAnyKeyChanged('a', 'b') // emits only when 'a' or 'b' has changed
+ * distinctUntilAnyKeyChanged({ keys: ['filter.page', 'user'], comparators: { user: byId }, deep: true })
  * ```
  */
-export function distinctUntilAnyKeyChanged<T, K extends keyof T>(...keys: K[]): MonoTypeOperatorFunction<T> {
+export function distinctUntilAnyKeyChanged<T>(...args: (keyof T)[] | [DistinctKeysOptions<T>]): MonoTypeOperatorFunction<T> {
+    const options: DistinctKeysOptions<T> = isOptions(args[0]) ? args[0] : { keys: args as (keyof T)[] };
+    const { deep = false, onChange } = options;
+    const comparators: Record<PropertyKey, ((prev: any, curr: any) => boolean) | undefined> = options.comparators ?? {};
+
+    // symbol and number keys are kept as is, only string keys may be dotted paths
+    const keys: (keyof T | string)[] = options.keys?.length ? options.keys : Object.keys(comparators);
+    const defaultEqual = deep ? deepEqual : (a: unknown, b: unknown) => a === b;
+
     return distinctUntilChanged((prev, curr) => {
         if (!prev || !curr) return prev === curr;
 
-        const compareKeys: K[] = keys.length > 0
+        const compareKeys = keys.length > 0
             ? keys
-            : Array.from(new Set([...Object.keys(prev), ...Object.keys(curr)])) as K[];
+            : Array.from(new Set([...Object.keys(prev), ...Object.keys(curr)]));
+
+        const isEqual = (key: keyof T | string) => {
+            const equal = comparators[key] ?? defaultEqual;
+            return equal(getPath(prev, key), getPath(curr, key));
+        };
 
-        return compareKeys.every(key => prev[key] === curr[key]);
+        if (!onChange) {
+            return compareKeys.every(isEqual);
+        }
+
+        const changedKeys = compareKeys.filter(key => !isEqual(key));
+        if (changedKeys.length > 0) {
+            onChange(changedKeys, prev, curr);
+        }
+        return changedKeys.length === 0;
     });
 }
+
+function isOptions<T>(arg: keyof T | DistinctKeysOptions<T> | undefined): arg is DistinctKeysOptions<T> {
+    return typeof arg === 'object' && arg !== null;
+}
+
+/**
+ * Reads a key or a dotted key path. A key containing dots is read as is if it exists on the object.
+ */
+function getPath(obj: any, path: PropertyKey): unknown {
+    if (typeof path !== 'string' || path in Object(obj)) {
+        return obj[path];
+    }
+    return path.split('.').reduce((value, key) => value?.[key], obj);
+}
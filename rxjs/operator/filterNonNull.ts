@@ -22,15 +22,22 @@
  * SOFTWARE.
  */
 
-import { OperatorFunction } from 'rxjs';
+import { MonoTypeOperatorFunction, OperatorFunction } from 'rxjs';
 import { filter } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
+
+export function filterNonNull<T>(nullishness?: 'both'): OperatorFunction<T | null | undefined, T>;
+export function filterNonNull<T>(nullishness: 'null'): OperatorFunction<T | null, T>;
+export function filterNonNull<T>(nullishness: 'undefined'): OperatorFunction<T | undefined, T>;
+export function filterNonNull<T>(nullishness: (value: T) => boolean): MonoTypeOperatorFunction<T>;
 
 /**
  * Filters out null and undefined values from the source observable.
  * Acts as a type guard to ensure downstream receives only non-null values.
  *
+ * @param nullishness Which values are filtered out (default: `'both'`), see {@link Nullishness}.
  * @returns OperatorFunction that emits only non-null and non-undefined values.
  */
-export function filterNonNull<T>(): OperatorFunction<T | null | undefined, T> {
-    return filter((value): value is T => value != null);
+export function filterNonNull<T>(nullishness: Nullishness<any> = 'both'): OperatorFunction<T | null | undefined, T> {
+    return filter((value): value is T => !isNullish(value, nullishness));
 }
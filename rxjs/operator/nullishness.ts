@@ -0,0 +1,55 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Which values the null-handling operators (`filterNonNull`, `defaultIfNull`, `throwIfNull`, `skipUntilNonNull`)
+ * treat as missing:
+ * - `'both'` = `null` and `undefined` (default),
+ * - `'null'` = `null` only,
+ * - `'undefined'` = `undefined` only,
+ * - a predicate returning `true` for missing values, e.g. `value => value === '' || Number.isNaN(value)`.
+ *
+ * @template T The type of the checked values.
+ */
+export type Nullishness<T = unknown> = 'both' | 'null' | 'undefined' | ((value: T) => boolean);
+
+/**
+ * Checks whether a value is missing according to the given nullishness.
+ *
+ * @param value The value to check.
+ * @param nullishness Which values are missing (default: `'both'`).
+ * @returns `true` if the value is missing.
+ */
+export function isNullish<T>(value: T, nullishness: Nullishness<T> = 'both'): boolean {
+    switch (nullishness) {
+        case 'both':
+            return value == null;
+        case 'null':
+            return value === null;
+        case 'undefined':
+            return value === undefined;
+        default:
+            return nullishness(value);
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { OperatorFunction } from 'rxjs';
+import { filter, map, pairwise } from 'rxjs/operators';
+import { deepDiff } from '../../utils/deepDiff';
+import { DeepPartial } from '../../utils/deepUpdate';
+
+/**
+ * The change emitted by {@link pairwiseDiff}.
+ *
+ * @template T The type of the source values.
+ */
+export interface PairwiseChange<T> {
+    prev: T;
+    curr: T;
+
+    /**
+     * The top-level keys whose values are not deeply equal.
+     */
+    changedKeys: (keyof T & string)[];
+
+    /**
+     * The patch turning `prev` into `curr` with `deepUpdate(prev, patch)`.
+     */
+    patch: DeepPartial<T>;
+}
+
+/**
+ * Emits what changed between consecutive object values, as the changed keys and a patch
+ * that can be applied with `deepUpdate`. A companion of `distinctUntilAnyKeyChanged`,
+ * for downstream code that needs to know *what* changed, e.g. form autosave or audit logging.
+ *
+ * Like `pairwise`, nothing is emitted for the first value. Values without any change are skipped,
+ * unless `emitUnchanged` is set.
+ *
+ * ```
+ * source:       --a--b--b'--c--|
+ * pairwiseDiff: -----x--------y--|   (x = diff(a, b), y = diff(b', c); b' deeply equals b)
+ * ```
+ *
+ * @param options Whether changes without any changed key are emitted (default: `false`).
+ * @returns OperatorFunction emitting a {@link PairwiseChange} per changed value.
+ *
+ * @example
+ * ```ts
+ * form.valueChanges.pipe(
+ *     pairwiseDiff(),
+ *     debounceTime(500),
+ *     switchMap(({ patch }) => http.patch('/api/drafts/42', patch))
+ * );
+ * ```
+ */
+export function pairwiseDiff<T extends Record<string, any>>(
+    options: { emitUnchanged?: boolean } = {}
+): OperatorFunction<T, PairwiseChange<T>> {
+    return source => source.pipe(
+        pairwise(),
+        map(([prev, curr]) => ({ prev, curr, ...deepDiff(prev, curr) })),
+        filter(change => options.emitUnchanged || change.changedKeys.length > 0)
+    );
+}
@@ -0,0 +1,73 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { repeat, retry } from 'rxjs/operators';
+import { TestScheduler } from 'rxjs/testing';
+import { skipUntilNonNull } from './skipUntilNonNull';
+
+describe('skipUntilNonNull', () => {
+
+    const values = { n: null, u: undefined, a: 'a', b: 'b' };
+    let testScheduler: TestScheduler;
+
+    beforeEach(() => {
+        testScheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    });
+
+    it('skips nullish values until the first non-null value', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--n--u--a--n--b--|', values);
+            expectObservable(source.pipe(skipUntilNonNull())).toBe('--------a--n--b--|', values);
+        });
+    });
+
+    it('only skips the configured nullishness', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--u--n--a--|', values);
+            expectObservable(source.pipe(skipUntilNonNull('undefined'))).toBe('-----n--a--|', values);
+        });
+    });
+
+    it('keeps a separate state for subscribers sharing one operator instance', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const operator = skipUntilNonNull<string>();
+            expectObservable(cold('--a--n--|', values).pipe(operator)).toBe('--a--n--|', values);
+            expectObservable(cold('--n--b--n--|', values).pipe(operator)).toBe('-----b--n--|', values);
+        });
+    });
+
+    it('skips again after a repeat resubscription', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('-n-a-n-|', values);
+            expectObservable(source.pipe(skipUntilNonNull(), repeat(2))).toBe('---a-n----a-n-|', values);
+        });
+    });
+
+    it('skips again after a retry resubscription', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('-n-a-n-#', values);
+            expectObservable(source.pipe(skipUntilNonNull(), retry(1))).toBe('---a-n----a-n-#', values);
+        });
+    });
+});
@@ -23,27 +23,26 @@
  */
 
 import { OperatorFunction } from 'rxjs';
-import { filter } from 'rxjs/operators';
+import { skipWhile } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
 
 /**
  * Skips all values until the first non-null and non-undefined value is emitted.
  * After the first non-null value, all subsequent values are passed through.
  *
+ * The state is kept per subscription, so the same operator instance can be shared by several subscribers
+ * or resubscribed (e.g. by `retry` or `repeat`) without skipping differently.
+ *
+ * ```
+ * source:           --n--u--a--n--b--|
+ * skipUntilNonNull: --------a--n--b--|
+ * ```
+ *
+ * @param nullishness Which values are skipped (default: `'both'`), see {@link Nullishness}.
  * @returns OperatorFunction that delays emissions until a non-null value appears.
  */
-export function skipUntilNonNull<T>(): OperatorFunction<T | null | undefined, T | null | undefined> {
-    let hasEmitted = false;
-
-    return source => source.pipe(
-        filter(value => {
-            if (hasEmitted) {
-                return true;
-            }
-            if (value != null) {
-                hasEmitted = true;
-                return true;
-            }
-            return false;
-        })
-    );
+export function skipUntilNonNull<T>(
+    nullishness: Nullishness<T | null | undefined> = 'both'
+): OperatorFunction<T | null | undefined, T | null | undefined> {
+    return skipWhile(value => isNullish(value, nullishness));
 }
@@ -0,0 +1,67 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { repeat } from 'rxjs/operators';
+import { TestScheduler } from 'rxjs/testing';
+import { skipUntilValid } from './skipUntilValid';
+
+describe('skipUntilValid', () => {
+
+    const values = { a: 0, b: 3, c: 7, d: 2, e: 9 };
+    let testScheduler: TestScheduler;
+
+    beforeEach(() => {
+        testScheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    });
+
+    it('skips values until the first valid one, then passes everything through', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--a--b--c--d--e--|', values);
+            expectObservable(source.pipe(skipUntilValid(value => value > 5))).toBe('--------c--d--e--|', values);
+        });
+    });
+
+    it('passes the index to the predicate', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--a--b--c--|', values);
+            expectObservable(source.pipe(skipUntilValid((_, index) => index >= 1))).toBe('-----b--c--|', values);
+        });
+    });
+
+    it('keeps a separate state for subscribers sharing one operator instance', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const operator = skipUntilValid<number>(value => value > 5);
+            expectObservable(cold('--c--a--|', values).pipe(operator)).toBe('--c--a--|', values);
+            expectObservable(cold('--a--e--|', values).pipe(operator)).toBe('-----e--|', values);
+        });
+    });
+
+    it('skips again after a repeat resubscription', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('-a-c-d-|', values);
+            expectObservable(source.pipe(skipUntilValid(value => value > 5), repeat(2)))
+                .toBe('---c-d----c-d-|', values);
+        });
+    });
+});
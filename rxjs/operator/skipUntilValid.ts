@@ -0,0 +1,44 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { MonoTypeOperatorFunction } from 'rxjs';
+import { skipWhile } from 'rxjs/operators';
+
+/**
+ * Skips all values until the first value satisfying the predicate is emitted.
+ * After the first valid value, all subsequent values are passed through, valid or not.
+ *
+ * The state is kept per subscription, so the operator can be shared or resubscribed safely.
+ *
+ * ```
+ * source:                             --0--3--7--2--9--|
+ * skipUntilValid(value => value > 5): --------7--2--9--|
+ * ```
+ *
+ * @param predicate A function returning `true` for a valid value.
+ * @returns MonoTypeOperatorFunction that delays emissions until a valid value appears.
+ */
+export function skipUntilValid<T>(predicate: (value: T, index: number) => boolean): MonoTypeOperatorFunction<T> {
+    return skipWhile((value, index) => !predicate(value, index));
+}
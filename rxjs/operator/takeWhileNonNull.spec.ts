@@ -0,0 +1,66 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { TestScheduler } from 'rxjs/testing';
+import { takeWhileNonNull } from './takeWhileNonNull';
+
+describe('takeWhileNonNull', () => {
+
+    const values = { n: null, u: undefined, a: 'a', b: 'b', c: 'c' };
+    let testScheduler: TestScheduler;
+
+    beforeEach(() => {
+        testScheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    });
+
+    it('completes on the first nullish value', () => {
+        testScheduler.run(({ cold, expectObservable, expectSubscriptions }) => {
+            const source = cold('--a--b--n--c--|', values);
+            expectObservable(source.pipe(takeWhileNonNull())).toBe('--a--b--|', values);
+            expectSubscriptions(source.subscriptions).toBe('^-------!');
+        });
+    });
+
+    it('completes with the source when every value is non-null', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--a--b--|', values);
+            expectObservable(source.pipe(takeWhileNonNull())).toBe('--a--b--|', values);
+        });
+    });
+
+    it('only completes on the configured nullishness', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--a--u--n--|', values);
+            expectObservable(source.pipe(takeWhileNonNull<string | undefined>('null'))).toBe('--a--u--|', values);
+        });
+    });
+
+    it('keeps a separate state for subscribers sharing one operator instance', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const operator = takeWhileNonNull<string>();
+            expectObservable(cold('--a--n--|', values).pipe(operator)).toBe('--a--|', values);
+            expectObservable(cold('--b--c--|', values).pipe(operator)).toBe('--b--c--|', values);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { MonoTypeOperatorFunction, OperatorFunction } from 'rxjs';
+import { takeWhile } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
+
+export function takeWhileNonNull<T>(nullishness?: 'both'): OperatorFunction<T | null | undefined, T>;
+export function takeWhileNonNull<T>(nullishness: 'null'): OperatorFunction<T | null, T>;
+export function takeWhileNonNull<T>(nullishness: 'undefined'): OperatorFunction<T | undefined, T>;
+export function takeWhileNonNull<T>(nullishness: (value: T) => boolean): MonoTypeOperatorFunction<T>;
+
+/**
+ * Emits values while they are non-null and non-undefined, and completes on the first null or undefined value.
+ *
+ * ```
+ * source:           --a--b--n--c--|
+ * takeWhileNonNull: --a--b--|
+ * ```
+ *
+ * @param nullishness Which values complete the stream (default: `'both'`), see {@link Nullishness}.
+ * @returns OperatorFunction that emits non-null values until a null value appears.
+ */
+export function takeWhileNonNull<T>(nullishness: Nullishness<any> = 'both'): OperatorFunction<T | null | undefined, T> {
+    return takeWhile((value): value is T => !isNullish(value, nullishness));
+}
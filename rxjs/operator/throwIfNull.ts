@@ -22,21 +22,73 @@
  * SOFTWARE.
  */
 
-import { OperatorFunction } from 'rxjs';
+import { MonoTypeOperatorFunction, OperatorFunction } from 'rxjs';
 import { map } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
+
+/**
+ * The error thrown by {@link throwIfNull}, carrying the context of the failing emission.
+ */
+export class NullValueError extends Error {
+
+    /**
+     * @param message The error message.
+     * @param value The missing value that was emitted.
+     * @param index The zero-based index of the emission in the source.
+     * @param label The label passed to `throwIfNull`, identifying the failing stream.
+     */
+    constructor(
+        message: string,
+        readonly value: unknown,
+        readonly index: number,
+        readonly label?: string
+    ) {
+        super(`${label ? `[${label}] ` : ''}${message} (emission #${index}, value: ${String(value)})`);
+        this.name = 'NullValueError';
+    }
+}
+
+/**
+ * Options of {@link throwIfNull}.
+ *
+ * @template N The nullishness of the operator.
+ */
+export interface ThrowIfNullOptions<N> {
+
+    /**
+     * A label identifying the stream in the error, e.g. `'currentUser$'`.
+     */
+    label?: string;
+
+    /**
+     * Which values throw (default: `'both'`), see {@link Nullishness}.
+     */
+    nullishness?: N;
+}
+
+export function throwIfNull<T>(message?: string, options?: ThrowIfNullOptions<'both'>): OperatorFunction<T | null | undefined, T>;
+export function throwIfNull<T>(message: string, options: ThrowIfNullOptions<'null'>): OperatorFunction<T | null, T>;
+export function throwIfNull<T>(message: string, options: ThrowIfNullOptions<'undefined'>): OperatorFunction<T | undefined, T>;
+export function throwIfNull<T>(message: string, options: ThrowIfNullOptions<(value: T) => boolean>): MonoTypeOperatorFunction<T>;
 
 /**
  * Throws an error if the source emits a null or undefined value.
  * Useful when a value is expected to always be present.
  *
  * @param message Optional error message to throw.
- * @returns OperatorFunction that throws if value is null or undefined.
+ * @param options A label identifying the stream and the nullishness, see {@link ThrowIfNullOptions}.
+ * @returns OperatorFunction that throws a {@link NullValueError} if value is null or undefined.
  */
-export function throwIfNull<T>(message = 'Unexpected null or undefined'): OperatorFunction<T | null | undefined, T> {
-    return map(value => {
-        if (value == null) {
-            throw new Error(message);
+export function throwIfNull<T>(
+    message = 'Unexpected null or undefined',
+    options: ThrowIfNullOptions<Nullishness<any>> = {}
+): OperatorFunction<T | null | undefined, T> {
+    const { label, nullishness = 'both' } = options;
+
+    return map((value, index) => {
+        if (isNullish(value, nullishness)) {
+            throw new NullValueError(message, value, index, label);
         }
-        return value;
+        return value as T;
     });
 }
@@ -0,0 +1,67 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { EmptyError, TimeoutError } from 'rxjs';
+import { TestScheduler } from 'rxjs/testing';
+import { waitForNonNull } from './waitForNonNull';
+
+describe('waitForNonNull', () => {
+
+    const values = { n: null, u: undefined, a: 'a', b: 'b' };
+    let testScheduler: TestScheduler;
+
+    beforeEach(() => {
+        testScheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    });
+
+    it('emits the first non-null value and completes', () => {
+        testScheduler.run(({ cold, expectObservable, expectSubscriptions }) => {
+            const source = cold('--n--u--a--b--|', values);
+            expectObservable(source.pipe(waitForNonNull(1000))).toBe('--------(a|)', values);
+            expectSubscriptions(source.subscriptions).toBe('^-------!');
+        });
+    });
+
+    it('errors with a TimeoutError when no value arrives in time', () => {
+        testScheduler.run(({ cold, expectObservable, expectSubscriptions }) => {
+            const source = cold('--n------------a--|', values);
+            expectObservable(source.pipe(waitForNonNull(10))).toBe('----------#', undefined, jasmine.any(TimeoutError));
+            expectSubscriptions(source.subscriptions).toBe('^---------!');
+        });
+    });
+
+    it('errors with an EmptyError when the source completes first', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--n--u--|', values);
+            expectObservable(source.pipe(waitForNonNull(1000))).toBe('--------#', undefined, jasmine.any(EmptyError));
+        });
+    });
+
+    it('waits past the configured nullishness only', () => {
+        testScheduler.run(({ cold, expectObservable }) => {
+            const source = cold('--u--n--|', values);
+            expectObservable(source.pipe(waitForNonNull<string | null>(1000, 'undefined'))).toBe('-----(n|)', values);
+        });
+    });
+});
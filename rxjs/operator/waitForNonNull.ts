@@ -0,0 +1,58 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { OperatorFunction } from 'rxjs';
+import { first, timeout } from 'rxjs/operators';
+import { isNullish, Nullishness } from './nullishness';
+
+/**
+ * Waits for the first non-null and non-undefined value, emits it and completes.
+ * Errors with a `TimeoutError` if no such value arrives within the time limit after subscription,
+ * and with an `EmptyError` if the source completes before.
+ * Useful in guards and resolvers waiting for some state to be loaded.
+ *
+ * ```
+ * source:               --n--u--a--b--|
+ * waitForNonNull(1000): --------(a|)
+ *
+ * source:               --n----------...
+ * waitForNonNull(1000): ----------#      (TimeoutError after 1000 ms)
+ *
+ * source:               --n--|
+ * waitForNonNull(1000): -----#           (EmptyError)
+ * ```
+ *
+ * @param timeoutMs The time limit in milliseconds.
+ * @param nullishness Which values are waited past (default: `'both'`), see {@link Nullishness}.
+ * @returns OperatorFunction that emits the first non-null value, or errors on timeout or early completion.
+ */
+export function waitForNonNull<T>(
+    timeoutMs: number,
+    nullishness: Nullishness<T | null | undefined> = 'both'
+): OperatorFunction<T | null | undefined, T> {
+    return source => source.pipe(
+        first((value): value is T => !isNullish(value, nullishness)),
+        timeout({ first: timeoutMs })
+    );
+}
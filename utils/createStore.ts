@@ -0,0 +1,192 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, signal, Signal, untracked } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { deepUpdate, DeepPartial, DeepUpdateOptions, getIn, updateIn } from './deepUpdate';
+
+/**
+ * Options of {@link createStore}.
+ */
+export interface StoreOptions extends DeepUpdateOptions {
+
+    /**
+     * How many previous states are kept for `undo()`. `0` disables the history. Default value is 100.
+     */
+    historyLimit?: number;
+}
+
+/**
+ * A signal store created by {@link createStore}.
+ *
+ * @template T The type of the state.
+ */
+export interface Store<T> {
+
+    /**
+     * The current state.
+     */
+    readonly state: Signal<T>;
+
+    /**
+     * Whether `undo()` / `redo()` would change the state.
+     */
+    readonly canUndo: Signal<boolean>;
+    readonly canRedo: Signal<boolean>;
+
+    /**
+     * Deeply merges a patch into the state, with the semantics of `deepUpdate`.
+     */
+    patch(patch: DeepPartial<T>): void;
+
+    /**
+     * Updates the value at a path, with the semantics of `updateIn`.
+     */
+    updateIn(path: string, updater: (value: any) => unknown): void;
+
+    /**
+     * Replaces the state.
+     */
+    set(state: T): void;
+
+    /**
+     * Selects a key or a dotted path (e.g. `'filter.page'` or `'items[0].name'`) of the state.
+     * The signal is memoized per path, and only notifies when the selected value changes.
+     */
+    select<K extends keyof T>(key: K): Signal<T[K]>;
+    select<R = unknown>(path: string): Signal<R>;
+
+    /**
+     * Restores the previous state. Returns `false` if there is nothing to undo.
+     */
+    undo(): boolean;
+
+    /**
+     * Restores the state undone last. Returns `false` if there is nothing to redo.
+     */
+    redo(): boolean;
+
+    /**
+     * Forgets the undo / redo history.
+     */
+    clearHistory(): void;
+
+    /**
+     * The state as an observable, emitting the current state on subscription and every change synchronously.
+     * Works outside of an injection context, unlike `toObservable`.
+     */
+    asObservable(): Observable<T>;
+}
+
+/**
+ * Creates a lightweight signal store, replacing `state.update(s => deepUpdate(s, patch))` calls.
+ *
+ * Updates keep the references of untouched branches, so selected signals and
+ * `distinctUntilAnyKeyChanged` only notify about the parts that actually changed.
+ * An update that does not change anything is ignored: no history entry and no emission.
+ *
+ * @param initial - The initial state.
+ * @param options - The history limit and the array strategies used by `patch()`.
+ * @returns The {@link Store}.
+ *
+ * @example
+ * ```ts
+ * readonly store = createStore({ filter: { query: '', page: 1 }, items: [] as Item[] });
+ * readonly page = this.store.select<number>('filter.page');
+ *
+ * this.store.patch({ filter: { page: 2 } });
+ * this.store.undo();
+ *
+ * this.store.asObservable().pipe(
+ *     distinctUntilAnyKeyChanged({ keys: ['filter.query', 'filter.page'] }),
+ *     switchMap(({ filter }) => this.api.search(filter))
+ * );
+ * ```
+ */
+export function createStore<T extends Record<string, any>>(initial: T, options: StoreOptions = {}): Store<T> {
+    const { historyLimit = 100, ...updateOptions } = options;
+
+    const state = signal(initial);
+    const history = signal<{ past: T[]; future: T[] }>({ past: [], future: [] });
+    const subject = new BehaviorSubject(initial);
+    const selections = new Map<string, Signal<any>>();
+
+    const apply = (next: T, past: T[], future: T[]) => {
+        state.set(next);
+        history.set({ past, future });
+        subject.next(next);
+    };
+
+    // writes read the state untracked, so that patching the store from an effect does not make it depend on the state
+    const commit = (next: T) => {
+        const current = state();
+        if (Object.is(next, current)) {
+            return;
+        }
+        const past = historyLimit > 0 ? [...history().past, current].slice(-historyLimit) : [];
+        apply(next, past, []);
+    };
+
+    return {
+        state: state.asReadonly(),
+        canUndo: computed(() => history().past.length > 0),
+        canRedo: computed(() => history().future.length > 0),
+
+        patch: patch => untracked(() => commit(deepUpdate(state(), patch, updateOptions))),
+        updateIn: (path, updater) => untracked(() => commit(updateIn(state(), path, updater))),
+        set: next => untracked(() => commit(next)),
+
+        select: (path: PropertyKey) => {
+            const key = String(path);
+            let selection = selections.get(key);
+            if (!selection) {
+                selection = computed(() => getIn(state(), key));
+                selections.set(key, selection);
+            }
+            return selection;
+        },
+
+        undo: () => untracked(() => {
+            const { past, future } = history();
+            if (past.length === 0) {
+                return false;
+            }
+            apply(past[past.length - 1], past.slice(0, -1), [state(), ...future]);
+            return true;
+        }),
+
+        redo: () => untracked(() => {
+            const { past, future } = history();
+            if (future.length === 0) {
+                return false;
+            }
+            apply(future[0], [...past, state()], future.slice(1));
+            return true;
+        }),
+
+        clearHistory: () => history.set({ past: [], future: [] }),
+
+        asObservable: () => subject.asObservable()
+    };
+}
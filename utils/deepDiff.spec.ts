@@ -0,0 +1,94 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { deepDiff } from './deepDiff';
+import { deepEqual } from './deepEqual';
+import { deepUpdate, DELETE } from './deepUpdate';
+
+describe('deepDiff', () => {
+
+    const replayed = <T extends Record<string, any>>(prev: T, curr: T) => {
+        const { patch } = deepDiff(prev, curr);
+        return deepUpdate(prev, JSON.parse(JSON.stringify(patch)));
+    };
+
+    it('only patches the changed leaves', () => {
+        expect(deepDiff({ a: 1, b: { c: 1, d: 1 } }, { a: 1, b: { c: 2, d: 1 } }))
+            .toEqual({ changedKeys: ['b'], patch: { b: { c: 2 } } });
+    });
+
+    it('patches removed keys with DELETE', () => {
+        const { patch } = deepDiff<Record<string, any>>({ a: 1, b: { c: 1, d: 2 } }, { a: 1, b: { c: 1 } });
+        expect(patch).toEqual({ b: { d: DELETE } });
+    });
+
+    it('round-trips added keys through JSON', () => {
+        const prev: Record<string, any> = { a: 1 };
+        const curr: Record<string, any> = { a: 1, b: { c: [1, 2] } };
+        expect(deepEqual(replayed(prev, curr), curr)).toBeTrue();
+    });
+
+    it('round-trips changed keys through JSON', () => {
+        const prev = { a: 1, b: { c: 1, d: [1] } };
+        const curr = { a: 2, b: { c: 1, d: [1, 2] } };
+        expect(deepEqual(replayed(prev, curr), curr)).toBeTrue();
+    });
+
+    it('round-trips removed keys through JSON', () => {
+        const prev: Record<string, any> = { a: 1, b: { c: 1, d: 2 }, e: 'x' };
+        const curr: Record<string, any> = { a: 1, b: { c: 1 } };
+        expect(deepEqual(replayed(prev, curr), curr)).toBeTrue();
+    });
+
+    it('replays keys changed to undefined in memory', () => {
+        const prev: Record<string, any> = { a: 1 };
+        const curr: Record<string, any> = { a: undefined };
+        expect(deepEqual(deepUpdate(prev, deepDiff(prev, curr).patch), curr)).toBeTrue();
+    });
+
+    it('drops keys changed to undefined through JSON', () => {
+        const prev: Record<string, any> = { a: 1 };
+        expect(replayed(prev, { a: undefined })).toEqual({ a: 1 });
+    });
+
+    it('replays changed dates in memory', () => {
+        const prev = { at: new Date(0) };
+        const curr = { at: new Date(1000) };
+        const result = deepUpdate(prev, deepDiff(prev, curr).patch);
+        expect(result.at).toBeInstanceOf(Date);
+        expect(deepEqual(result, curr)).toBeTrue();
+    });
+
+    it('replays changed dates through JSON with a reviver', () => {
+        const prev = { at: new Date(0) };
+        const curr = { at: new Date(1000) };
+        const json = JSON.stringify(deepDiff(prev, curr).patch);
+        const patch = JSON.parse(json, (key, value) => key === 'at' ? new Date(value) : value);
+        expect(deepEqual(deepUpdate(prev, patch), curr)).toBeTrue();
+    });
+
+    it('returns an empty patch for deeply equal objects', () => {
+        expect(deepDiff({ a: { b: [1] } }, { a: { b: [1] } })).toEqual({ changedKeys: [], patch: {} });
+    });
+});
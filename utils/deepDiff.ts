@@ -0,0 +1,111 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { deepEqual } from './deepEqual';
+import { DeepPartial, DELETE } from './deepUpdate';
+
+/**
+ * The difference between two objects, see {@link deepDiff}.
+ *
+ * @template T The type of the compared objects.
+ */
+export interface DeepDiff<T> {
+
+    /**
+     * The top-level keys whose values are not deeply equal.
+     */
+    changedKeys: (keyof T & string)[];
+
+    /**
+     * The patch turning the previous object into the current one with `deepUpdate(prev, patch)`.
+     */
+    patch: DeepPartial<T>;
+}
+
+/**
+ * Computes the patch between two objects, in the format applied by `deepUpdate`.
+ *
+ * - Nested plain objects are diffed recursively, so the patch only contains the changed leaves.
+ * - Any other value that is not deeply equal (arrays, dates, class instances, primitives) is replaced as a whole.
+ * - Removed keys are patched to the `DELETE` marker of `deepUpdate`.
+ *
+ * `deepUpdate(prev, patch)` is deeply equal to `curr`. For JSON-safe values, the patch can also be
+ * logged, sent over the wire and replayed: `deepUpdate(prev, JSON.parse(JSON.stringify(patch)))`.
+ * JSON cannot carry every value though: a key changed to `undefined` is dropped from the patch,
+ * and `Date`s become ISO strings unless revived by the `JSON.parse` reviver.
+ *
+ * @param prev The previous object.
+ * @param curr The current object.
+ * @returns The changed top-level keys and the patch.
+ *
+ * @example
+ * ```ts
+ * deepDiff({ a: 1, b: { c: 1, d: 1 } }, { a: 1, b: { c: 2, d: 1 } });
+ * // { changedKeys: ['b'], patch: { b: { c: 2 } } }
+ * ```
+ */
+export function deepDiff<T extends Record<string, any>>(prev: T, curr: T): DeepDiff<T> {
+    const patch = diffObjects(prev, curr) ?? {};
+    return {
+        changedKeys: Object.keys(patch) as (keyof T & string)[],
+        patch: patch as DeepPartial<T>
+    };
+}
+
+/**
+ * Computes the patch between two plain objects, or `null` if they are deeply equal.
+ */
+function diffObjects(prev: Record<string, any>, curr: Record<string, any>): Record<string, any> | null {
+    const patch: Record<string, any> = {};
+    let changed = false;
+
+    for (const key of new Set([...Object.keys(prev), ...Object.keys(curr)])) {
+        const prevValue = prev[key];
+        const currValue = curr[key];
+
+        if (!Object.prototype.hasOwnProperty.call(curr, key)) {
+            patch[key] = DELETE;
+            changed = true;
+        } else if (isPlainObject(prevValue) && isPlainObject(currValue)) {
+            const nested = diffObjects(prevValue, currValue);
+            if (nested) {
+                patch[key] = nested;
+                changed = true;
+            }
+        } else if (!Object.prototype.hasOwnProperty.call(prev, key) || !deepEqual(prevValue, currValue)) {
+            patch[key] = currValue;
+            changed = true;
+        }
+    }
+
+    return changed ? patch : null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
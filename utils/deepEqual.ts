@@ -0,0 +1,112 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Deeply compares two values for structural equality.
+ *
+ * - Primitives are compared with `Object.is` (so `NaN` equals `NaN`).
+ * - `Date`s are compared by time, `RegExp`s by source and flags.
+ * - Arrays, `Map`s, `Set`s and plain objects are compared recursively. `Set` items are compared by identity.
+ * - Objects with different prototypes are never equal.
+ * - Cyclic references are supported: a pair of objects already under comparison is assumed equal.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if both values are structurally equal.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    return deepEqualWith(a, b, new Map());
+}
+
+/**
+ * Shallowly compares two arrays or objects: same length or keys, and `===` items or values.
+ * Any other values are compared with `Object.is`.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if both values are shallowly equal.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (!isObject(a) || !isObject(b) || Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length
+        && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && a[key] === b[key]);
+}
+
+function deepEqualWith(a: unknown, b: unknown, visiting: Map<object, Set<object>>): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (!isObject(a) || !isObject(b) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    if (a instanceof Date) {
+        return a.getTime() === (b as unknown as Date).getTime();
+    }
+    if (a instanceof RegExp) {
+        return String(a) === String(b);
+    }
+
+    // cycle detection: the pair is already being compared higher up the stack
+    let pairs = visiting.get(a);
+    if (pairs?.has(b)) {
+        return true;
+    }
+    if (!pairs) {
+        pairs = new Set();
+        visiting.set(a, pairs);
+    }
+    pairs.add(b);
+
+    try {
+        if (a instanceof Map) {
+            const other = b as unknown as Map<unknown, unknown>;
+            return a.size === other.size
+                && [...a].every(([key, value]) => other.has(key) && deepEqualWith(value, other.get(key), visiting));
+        }
+        if (a instanceof Set) {
+            const other = b as unknown as Set<unknown>;
+            return a.size === other.size && [...a].every(item => other.has(item));
+        }
+
+        const keysA = Object.keys(a);
+        const keysB = Object.keys(b);
+        return keysA.length === keysB.length
+            && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqualWith(a[key], b[key], visiting));
+    } finally {
+        pairs.delete(b);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
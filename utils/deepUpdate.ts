@@ -22,10 +22,110 @@
  * SOFTWARE.
  */
 
+/**
+ * Marker removing a key when used as a patch value, e.g. `deepUpdate(obj, { a: { b: DELETE } })`.
+ * It is plain data (`{ "$delete": true }`), so patches keep their deletions when sent as JSON.
+ */
+export const DELETE: DeleteMarker = Object.freeze({ $delete: true });
+
+/**
+ * The type of {@link DELETE}.
+ */
+export interface DeleteMarker {
+    readonly $delete: true;
+}
+
+/**
+ * Whether a value is the {@link DELETE} marker, or a copy of it (e.g. parsed from JSON).
+ */
+export function isDeleteMarker(value: unknown): value is DeleteMarker {
+    return isPlainObject(value) && value['$delete'] === true && Object.keys(value).length === 1;
+}
+
+/**
+ * An array patch merging partial items into the items with the same key, created with {@link mergeBy}.
+ *
+ * @template T The type of the partial items.
+ */
+export class MergePatch<T> {
+    constructor(
+        readonly keyOf: PropertyKey | ((item: any) => unknown),
+        readonly items: T[]
+    ) { }
+}
+
+/**
+ * Creates an array patch deeply merging partial items into the items with the same key,
+ * and appending the items with a new key. A plain array patch requires complete items instead.
+ *
+ * @param keyOf The key of the items, or a function extracting it.
+ * @param items The partial items.
+ * @returns The array patch.
+ *
+ * @example
+ * ```ts
+ * deepUpdate(state, { users: mergeBy('id', [{ id: 2, name: 'Bob' }]) });
+ * ```
+ */
+export function mergeBy<T>(keyOf: keyof T | ((item: T) => unknown), items: T[]): MergePatch<T> {
+    return new MergePatch(keyOf, items);
+}
+
+/**
+ * Values that are never merged, but always replaced as a whole.
+ */
+type Atomic = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function
+    | Map<any, any> | Set<any>;
+
+/**
+ * A deep patch of `T`: every property is optional, nested objects are patches themselves,
+ * and optional properties can be removed with {@link DELETE}.
+ * Arrays are patched with complete items, or with partial items through {@link mergeBy}.
+ */
+export type DeepPartial<T> = T extends Atomic
+    ? T
+    : T extends readonly (infer U)[]
+        ? U[] | MergePatch<DeepPartial<U>>
+        : { [K in keyof T]?: DeepPartial<T[K]> | (undefined extends T[K] ? DeleteMarker : never) };
+
+/**
+ * How a patch array is applied to an array:
+ * - `'replace'` = the patch array replaces the array (default),
+ * - `'append'` = the patch items are appended,
+ * - `{ mergeBy }` = patch items are deeply merged into the items with the same key, new items are appended.
+ *
+ * A {@link MergePatch} created with {@link mergeBy} is always merged, whatever the strategy.
+ */
+export type ArrayStrategy<T = any> = 'replace' | 'append' | { mergeBy: keyof T | ((item: T) => unknown) };
+
+/**
+ * Options of {@link deepUpdate}.
+ */
+export interface DeepUpdateOptions {
+
+    /**
+     * The strategy applied to every array (default: `'replace'`).
+     */
+    arrayStrategy?: ArrayStrategy;
+
+    /**
+     * Strategies by dotted key path, without array indexes (e.g. `'users'` or `'users.tags'`),
+     * overriding `arrayStrategy`.
+     */
+    arrayStrategies?: Record<string, ArrayStrategy>;
+}
+
 /**
  * Deeply update an object by merging it with a patch object.  
  * This function recursively updates the original object by applying 
- * changes from the patch object.
+ * changes from the patch object, without mutating it.
+ *
+ * - Plain objects are merged. Class instances patched with a plain object are merged into a copy
+ *   with the same prototype, keeping their other properties and methods.
+ * - Arrays follow their {@link ArrayStrategy}. `Date`, `Map`, `Set` and `RegExp` values are replaced as a whole.
+ * - {@link DELETE} removes a key.
+ * - Untouched branches keep their references, and a patch without any effective change returns
+ *   the original object itself, so `OnPush` components and signal equality checks are not triggered needlessly.
  *
  * Note: For shallow updates of plain objects, consider using
  * the spread operator (`{...originalObj, ...patchObj}`) for a 
@@ -33,19 +133,202 @@
  * 
  * @param originalObj The original object to be updated.
  * @param patchObj The patch object containing updates to be applied.
+ * @param options The strategies applied to arrays.
  * 
  * @returns The updated object with changes from the patch object.
+ *
+ * @example
+ * ```ts
+ * deepUpdate(state, { filter: { page: 2, query: DELETE } });
+ * deepUpdate(state, { users: [{ id: 3, name: 'Eve' }] }, { arrayStrategies: { users: { mergeBy: 'id' } } });
+ * ```
+ */
+export function deepUpdate<T extends Record<string, any>>(
+    originalObj: T,
+    patchObj: DeepPartial<T>,
+    options: DeepUpdateOptions = {}
+): T {
+    return updateValue(originalObj, patchObj, '', options) as T;
+}
+
+/**
+ * Immutably updates the value at a path, creating missing objects and arrays along the way.
+ * Untouched branches keep their references. Returning {@link DELETE} from `updater` removes the key.
+ *
+ * @param obj The original object.
+ * @param path The path, with dots and array indexes, e.g. `'a.b[2].c'`.
+ * @param updater Computes the new value from the current one.
+ * @returns The updated object, or `obj` itself if the value did not change.
+ *
+ * @example
+ * ```ts
+ * updateIn(state, 'cart.items[0].quantity', quantity => quantity + 1);
+ * ```
+ */
+export function updateIn<T>(obj: T, path: string, updater: (value: any) => unknown): T {
+    return setIn(obj, parsePath(path), 0, updater) as T;
+}
+
+/**
+ * Reads the value at a path.
+ *
+ * @param obj The object to read.
+ * @param path The path, with dots and array indexes, e.g. `'a.b[2].c'`.
+ * @returns The value, or `undefined` if the path does not exist.
  */
-export function deepUpdate<T extends Record<string, any>>(originalObj: T, patchObj: Partial<T>): T {
-    let updatedObj: T = { ...originalObj };
+export function getIn(obj: unknown, path: string): any {
+    return parsePath(path).reduce<any>((value, key) => value?.[key], obj);
+}
+
+function updateValue(original: unknown, patch: unknown, path: string, options: DeepUpdateOptions): unknown {
+    if (patch instanceof MergePatch) {
+        return mergeItems(Array.isArray(original) ? original : [], patch.items, patch.keyOf, path, options);
+    }
+    if (Array.isArray(patch)) {
+        return Array.isArray(original) ? updateArray(original, patch, path, options) : patch;
+    }
+    if (isPlainObject(patch)) {
+        // a patch onto a value that cannot be merged replaces it, without its DELETE markers
+        return updateObject(isMergeable(original) ? original : {}, patch, path, options);
+    }
+    return patch;
+}
+
+function updateObject(
+    original: Record<string, any>,
+    patch: Record<string, any>,
+    path: string,
+    options: DeepUpdateOptions
+): Record<string, any> {
+    let result: Record<string, any> | null = null;
+
+    for (const key of Object.keys(patch)) {
+        const patchValue = patch[key];
+        const exists = Object.prototype.hasOwnProperty.call(original, key);
+
+        if (isDeleteMarker(patchValue)) {
+            if (exists) {
+                result ??= copyObject(original);
+                delete result[key];
+            }
+            continue;
+        }
+
+        const next = updateValue(original[key], patchValue, path ? `${path}.${key}` : key, options);
+        if (!exists || !Object.is(next, original[key])) {
+            result ??= copyObject(original);
+            result[key] = next;
+        }
+    }
+
+    return result ?? original;
+}
+
+function updateArray(original: unknown[], patch: unknown[], path: string, options: DeepUpdateOptions): unknown[] {
+    const strategy = options.arrayStrategies?.[path] ?? options.arrayStrategy ?? 'replace';
+
+    if (strategy === 'replace') {
+        const unchanged = original.length === patch.length && original.every((item, i) => Object.is(item, patch[i]));
+        return unchanged ? original : patch;
+    }
+    if (strategy === 'append') {
+        return patch.length > 0 ? [...original, ...patch] : original;
+    }
+
+    return mergeItems(original, patch, strategy.mergeBy, path, options);
+}
+
+function mergeItems(
+    original: unknown[],
+    patch: unknown[],
+    keyOrExtractor: PropertyKey | ((item: any) => unknown),
+    path: string,
+    options: DeepUpdateOptions
+): unknown[] {
+    const keyOf = typeof keyOrExtractor === 'function' ? keyOrExtractor : (item: any) => item?.[keyOrExtractor];
+    const indexByKey = new Map(original.map((item, i) => [keyOf(item), i]));
+
+    let result: unknown[] | null = null;
+    for (const patchItem of patch) {
+        const index = indexByKey.get(keyOf(patchItem));
+        if (index === undefined) {
+            result ??= [...original];
+            result.push(updateValue(undefined, patchItem, path, options));
+            continue;
+        }
 
-    for (const [key, patchValue] of Object.entries(patchObj)) {
-        if (typeof patchValue === 'object' && patchValue != null) {
-            updatedObj = { ...updatedObj, [key]: deepUpdate(updatedObj[key], patchValue) };
+        const current = (result ?? original)[index];
+        const next = updateValue(current, patchItem, path, options);
+        if (!Object.is(next, current)) {
+            result ??= [...original];
+            result[index] = next;
+        }
+    }
+    return result ?? original;
+}
+
+function setIn(node: any, keys: (string | number)[], depth: number, updater: (value: any) => unknown): unknown {
+    if (depth === keys.length) {
+        return updater(node);
+    }
+
+    const key = keys[depth];
+    const child = node?.[key];
+    const next = setIn(child, keys, depth + 1, updater);
+
+    if (node != null && (isDeleteMarker(next) ? !(key in Object(node)) : Object.is(next, child) && key in Object(node))) {
+        return node;
+    }
+
+    const copy: any = Array.isArray(node)
+        ? [...node]
+        : node == null ? (typeof key === 'number' ? [] : {}) : { ...node };
+
+    if (isDeleteMarker(next)) {
+        if (Array.isArray(copy) && typeof key === 'number') {
+            copy.splice(key, 1);
         } else {
-            updatedObj = { ...updatedObj, [key]: patchValue };
+            delete copy[key];
         }
+    } else {
+        copy[key] = next;
     }
+    return copy;
+}
 
-    return updatedObj;
+/**
+ * Parses a path such as `'a.b[2].c'` into `['a', 'b', 2, 'c']`.
+ */
+function parsePath(path: string): (string | number)[] {
+    const keys: (string | number)[] = [];
+    for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+        keys.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+    }
+    return keys;
+}
+
+/**
+ * Whether an object patch is merged into a value: plain objects and class instances,
+ * but not arrays and built-in values such as `Date` or `Map`.
+ */
+function isMergeable(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && !(value instanceof Date || value instanceof RegExp || value instanceof Map || value instanceof Set);
+}
+
+/**
+ * Shallowly copies an object, keeping the prototype of class instances.
+ */
+function copyObject(original: Record<string, any>): Record<string, any> {
+    return isPlainObject(original)
+        ? { ...original }
+        : Object.assign(Object.create(Object.getPrototypeOf(original)), original);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
 }
@@ -0,0 +1,287 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, signal, Signal } from '@angular/core';
+import { computeSelectionSummary, TriState } from './computeSelectionTriState';
+
+/**
+ * Options of {@link SelectionModel}.
+ *
+ * @template T The type of the items.
+ * @template K The type of the item keys.
+ */
+export interface SelectionModelOptions<T, K> {
+
+    /**
+     * Extracts the unique key of an item.
+     */
+    keyOf: (item: T) => K;
+
+    /**
+     * The maximum number of selected items. Selecting more items is ignored once reached.
+     * Selecting all across pages is not possible with a limit.
+     */
+    maxSelected?: number;
+}
+
+/**
+ * A serializable selection, e.g. to send a bulk action to the server:
+ * - `'include'` = only `keys` are selected,
+ * - `'exclude'` = every item across all pages is selected, except `keys`.
+ */
+export interface SelectionSnapshot<K> {
+    mode: 'include' | 'exclude';
+    keys: K[];
+}
+
+/**
+ * Selection of list items keyed by `keyOf`, replacing hand-written selection arrays.
+ *
+ * The model knows the currently displayed items (`setItems()`), used by `state`, `selectAll()`, `invert()`
+ * and range selection. Selected keys survive item changes, e.g. when paging or filtering.
+ *
+ * With `selectAllAcrossPages()`, the selection is stored as an exclusion set: every item is selected
+ * except the deselected ones, so a server-paginated grid can report `'all'` without holding every key.
+ * Provide the total count with `setTotal()` to get the exact state and count in this mode.
+ *
+ * @template T The type of the items.
+ * @template K The type of the item keys.
+ *
+ * @example
+ * ```ts
+ * readonly selection = new SelectionModel<User, number>({ keyOf: user => user.id });
+ *
+ * constructor() {
+ *     effect(() => this.selection.setItems(this.users()));
+ * }
+ *
+ * onRowClick(user: User, event: MouseEvent) {
+ *     const anchor = this.selection.anchor();
+ *     event.shiftKey && anchor ? this.selection.selectRange(anchor, user) : this.selection.toggle(user);
+ * }
+ * ```
+ */
+export class SelectionModel<T, K = string | number> {
+
+    /**
+     * The currently displayed items.
+     */
+    readonly items: Signal<T[]>;
+
+    /**
+     * Whether every item across all pages is selected, except the deselected ones.
+     */
+    readonly acrossPages: Signal<boolean>;
+
+    /**
+     * The last toggled item, the anchor of a shift-click range selection.
+     */
+    readonly anchor: Signal<T | null>;
+
+    /**
+     * The selected items among the displayed ones.
+     */
+    readonly selected: Signal<T[]>;
+
+    /**
+     * The number of selected items, or `null` when selecting across pages without a known total.
+     */
+    readonly selectedCount: Signal<number | null>;
+
+    /**
+     * Whether `maxSelected` is reached.
+     */
+    readonly limitReached: Signal<boolean>;
+
+    /**
+     * The selection state: of the displayed items, or of all items when selecting across pages.
+     */
+    readonly state: Signal<TriState>;
+
+    private readonly itemList = signal<T[]>([]);
+    private readonly keys = signal<ReadonlySet<K>>(new Set());
+    private readonly exclusionMode = signal(false);
+    private readonly total = signal<number | null>(null);
+    private readonly lastToggled = signal<T | null>(null);
+
+    constructor(private readonly options: SelectionModelOptions<T, K>) {
+        this.items = this.itemList.asReadonly();
+        this.acrossPages = this.exclusionMode.asReadonly();
+        this.anchor = this.lastToggled.asReadonly();
+        this.selected = computed(() => this.itemList().filter(item => this.isSelected(item)));
+
+        this.selectedCount = computed(() => {
+            if (!this.exclusionMode()) {
+                return this.keys().size;
+            }
+            const total = this.total();
+            return total === null ? null : Math.max(total - this.keys().size, 0);
+        });
+
+        this.limitReached = computed(() => {
+            const count = this.selectedCount();
+            return options.maxSelected !== undefined && count !== null && count >= options.maxSelected;
+        });
+
+        this.state = computed(() => {
+            if (this.exclusionMode()) {
+                const count = this.selectedCount();
+                return this.keys().size === 0 ? 'all' : count === 0 ? 'none' : 'indeterminate';
+            }
+            const { state } = computeSelectionSummary(this.itemList(), this.keys(), item => this.keyOf(item));
+            return state === 'empty' ? 'none' : state;
+        });
+    }
+
+    /**
+     * Sets the currently displayed items.
+     */
+    setItems(items: T[]): void {
+        this.itemList.set(items);
+    }
+
+    /**
+     * Sets the total number of items across all pages, used when selecting across pages.
+     */
+    setTotal(total: number | null): void {
+        this.total.set(total);
+    }
+
+    /**
+     * Whether an item is selected.
+     */
+    isSelected(item: T): boolean {
+        return this.keys().has(this.keyOf(item)) !== this.exclusionMode();
+    }
+
+    /**
+     * Selects items, up to `maxSelected`.
+     */
+    select(...items: T[]): void {
+        this.setSelected(items, true);
+    }
+
+    /**
+     * Deselects items.
+     */
+    deselect(...items: T[]): void {
+        this.setSelected(items, false);
+    }
+
+    /**
+     * Toggles an item and makes it the range anchor.
+     */
+    toggle(item: T): void {
+        this.setSelected([item], !this.isSelected(item));
+        this.lastToggled.set(item);
+    }
+
+    /**
+     * Selects the items from `anchor` to `target` inclusive, in the order of the displayed items,
+     * like a shift-click. Does nothing if one of them is not displayed.
+     */
+    selectRange(anchor: T, target: T): void {
+        const items = this.itemList();
+        const from = this.indexOf(items, anchor);
+        const to = this.indexOf(items, target);
+        if (from < 0 || to < 0) {
+            return;
+        }
+        this.select(...items.slice(Math.min(from, to), Math.max(from, to) + 1));
+        this.lastToggled.set(target);
+    }
+
+    /**
+     * Selects the given items, the displayed ones by default.
+     */
+    selectAll(visibleItems: T[] = this.itemList()): void {
+        this.select(...visibleItems);
+    }
+
+    /**
+     * Selects every item across all pages, storing the deselected keys instead of the selected ones.
+     * Does nothing if `maxSelected` is set.
+     */
+    selectAllAcrossPages(): void {
+        if (this.options.maxSelected !== undefined) {
+            return;
+        }
+        this.exclusionMode.set(true);
+        this.keys.set(new Set());
+    }
+
+    /**
+     * Inverts the selection of the given items, the displayed ones by default.
+     */
+    invert(visibleItems: T[] = this.itemList()): void {
+        const selected = new Set(visibleItems.filter(item => this.isSelected(item)));
+        this.deselect(...selected);
+        this.select(...visibleItems.filter(item => !selected.has(item)));
+    }
+
+    /**
+     * Deselects every item and leaves the across pages mode.
+     */
+    clear(): void {
+        this.exclusionMode.set(false);
+        this.keys.set(new Set());
+        this.lastToggled.set(null);
+    }
+
+    /**
+     * The selection as plain data.
+     */
+    snapshot(): SelectionSnapshot<K> {
+        return { mode: this.exclusionMode() ? 'exclude' : 'include', keys: [...this.keys()] };
+    }
+
+    private setSelected(items: T[], selected: boolean): void {
+        const exclusionMode = this.exclusionMode();
+        // in exclusion mode, the keys are the deselected items
+        const add = selected !== exclusionMode;
+        const max = exclusionMode ? Infinity : this.options.maxSelected ?? Infinity;
+
+        this.keys.update(current => {
+            const next = new Set(current);
+            for (const item of items) {
+                const key = this.keyOf(item);
+                if (!add) {
+                    next.delete(key);
+                } else if (next.size < max) {
+                    next.add(key);
+                }
+            }
+            return next.size === current.size && [...next].every(key => current.has(key)) ? current : next;
+        });
+    }
+
+    private indexOf(items: T[], item: T): number {
+        const key = this.keyOf(item);
+        return items.findIndex(candidate => this.keyOf(candidate) === key);
+    }
+
+    private keyOf(item: T): K {
+        return this.options.keyOf(item);
+    }
+}
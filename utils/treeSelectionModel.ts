@@ -0,0 +1,319 @@
+/**
+ * MIT License
+ * 
+ * Copyright (c) 2025 Kent010341
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { computed, signal, Signal, untracked, WritableSignal } from '@angular/core';
+import { TriState } from './computeSelectionTriState';
+
+/**
+ * The selection state of a tree node: a {@link TriState}, or `'unknown'` for a node
+ * whose children are not loaded yet and that is not selected as a whole.
+ */
+export type TreeNodeState = TriState | 'unknown';
+
+/**
+ * Options of {@link TreeSelectionModel}.
+ *
+ * @template T The type of the tree nodes.
+ * @template K The type of the node keys.
+ */
+export interface TreeSelectionOptions<T, K> {
+
+    /**
+     * Extracts the unique key of a node.
+     */
+    keyOf: (node: T) => K;
+
+    /**
+     * Returns the children of a node, or `undefined` if they are not loaded yet.
+     */
+    getChildren: (node: T) => T[] | null | undefined;
+
+    /**
+     * Whether a node has children, loaded or not. Required for lazy loaded trees,
+     * defaults to whether `getChildren` returns a non-empty array.
+     */
+    hasChildren?: (node: T) => boolean;
+}
+
+interface TreeEntry<T> {
+    node: T;
+
+    /**
+     * The children, or `undefined` if the node has children that are not loaded yet.
+     */
+    children: T[] | undefined;
+}
+
+/**
+ * Hierarchical selection model, where the {@link TreeNodeState} of each node derives from its descendants.
+ *
+ * - Only leaves are stored as selected. Selecting or deselecting a parent selects or deselects its whole subtree.
+ * - A node whose children are not loaded yet is selected as a unit, and its state is `'unknown'` unless selected.
+ *   Once its children are provided with `setChildren()`, the selection is propagated to them.
+ * - States are memoized signals. Each leaf reads its own selection signal, so a toggle only recomputes
+ *   the toggled leaves and their ancestors, while the other nodes keep their cached state.
+ *
+ * @template T The type of the tree nodes.
+ * @template K The type of the node keys.
+ *
+ * @example
+ * ```ts
+ * readonly selection = new TreeSelectionModel(folders, {
+ *     keyOf: folder => folder.id,
+ *     getChildren: folder => folder.children,
+ *     hasChildren: folder => folder.childCount > 0
+ * });
+ *
+ * // template
+ * <input type="checkbox"
+ *     [checked]="selection.stateOf(folder)() === 'all'"
+ *     [indeterminate]="selection.stateOf(folder)() !== 'all' && selection.stateOf(folder)() !== 'none'"
+ *     (change)="selection.toggle(folder)">
+ * ```
+ */
+export class TreeSelectionModel<T, K = string | number> {
+
+    /**
+     * The keys of the selected leaves, and of the selected nodes whose children are not loaded yet.
+     */
+    readonly selectedKeys: Signal<ReadonlySet<K>>;
+
+    /**
+     * The selected leaves, and the selected nodes whose children are not loaded yet, in tree order.
+     */
+    readonly selectedLeaves: Signal<T[]>;
+
+    /**
+     * The state of the whole tree.
+     */
+    readonly state: Signal<TreeNodeState>;
+
+    private readonly roots = signal<T[]>([]);
+    private readonly selection = signal<ReadonlySet<K>>(new Set());
+    private readonly selectedByKey = new Map<K, WritableSignal<boolean>>();
+    private readonly version = signal(0);
+    private readonly loadedChildren = new Map<K, T[]>();
+    private readonly states = new Map<K, Signal<TreeNodeState>>();
+
+    /**
+     * The loaded nodes by key.
+     */
+    private readonly index = computed(() => {
+        this.version();
+        const index = new Map<K, TreeEntry<T>>();
+        const visit = (nodes: T[]) => {
+            for (const node of nodes) {
+                const children = this.childrenOf(node);
+                index.set(this.options.keyOf(node), { node, children });
+                if (children) {
+                    visit(children);
+                }
+            }
+        };
+        visit(this.roots());
+        return index;
+    });
+
+    constructor(roots: T[], private readonly options: TreeSelectionOptions<T, K>) {
+        this.roots.set(roots);
+        this.selectedKeys = this.selection.asReadonly();
+        this.selectedLeaves = computed(() => {
+            const selected = this.selection();
+            return this.unitsOf(this.roots()).filter(node => selected.has(this.options.keyOf(node)));
+        });
+        this.state = computed(() => this.aggregate(this.roots().map(root => this.stateOf(root)())));
+    }
+
+    /**
+     * Replaces the root nodes. The selection is kept by key.
+     */
+    setRoots(roots: T[]): void {
+        this.roots.set(roots);
+    }
+
+    /**
+     * Provides the lazily loaded children of a node.
+     * If the node was selected, its selection is propagated to the new children.
+     */
+    setChildren(node: T, children: T[]): void {
+        const key = this.options.keyOf(node);
+        this.loadedChildren.set(key, children);
+        this.refresh();
+
+        const selection = untracked(this.selection);
+        if (selection.has(key)) {
+            const next = new Set(selection);
+            next.delete(key);
+            this.unitsOf(children).forEach(unit => next.add(this.options.keyOf(unit)));
+            this.setSelection(next);
+        }
+    }
+
+    /**
+     * Recomputes the tree structure, after the data read by `getChildren` or `hasChildren` changed.
+     */
+    refresh(): void {
+        this.version.update(version => version + 1);
+    }
+
+    /**
+     * The state of a node, as a memoized signal.
+     */
+    stateOf(node: T): Signal<TreeNodeState> {
+        const key = this.options.keyOf(node);
+        let state = this.states.get(key);
+        if (!state) {
+            state = computed(() => this.computeState(key));
+            this.states.set(key, state);
+        }
+        return state;
+    }
+
+    /**
+     * Selects the subtree of a node if not fully selected, otherwise deselects it.
+     */
+    toggle(node: T): void {
+        this.setSelected(node, this.stateOf(node)() !== 'all');
+    }
+
+    /**
+     * Selects the subtree of a node.
+     */
+    select(node: T): void {
+        this.setSelected(node, true);
+    }
+
+    /**
+     * Deselects the subtree of a node.
+     */
+    deselect(node: T): void {
+        this.setSelected(node, false);
+    }
+
+    /**
+     * Deselects every node.
+     */
+    clear(): void {
+        this.setSelection(new Set());
+    }
+
+    private setSelected(node: T, selected: boolean): void {
+        const keys = this.unitsOf([this.entryOf(node).node]).map(unit => this.options.keyOf(unit));
+        const next = new Set(untracked(this.selection));
+        keys.forEach(key => selected ? next.add(key) : next.delete(key));
+        this.setSelection(next);
+    }
+
+    /**
+     * Replaces the selection, notifying only the per-key signals whose value changed.
+     */
+    private setSelection(next: ReadonlySet<K>): void {
+        const current = untracked(this.selection);
+        for (const key of current) {
+            if (!next.has(key)) {
+                this.selectedByKey.get(key)?.set(false);
+            }
+        }
+        for (const key of next) {
+            if (!current.has(key)) {
+                this.selectedByKey.get(key)?.set(true);
+            }
+        }
+        this.selection.set(next);
+    }
+
+    /**
+     * Whether a key is selected, read through its own signal.
+     */
+    private isKeySelected(key: K): boolean {
+        let selected = this.selectedByKey.get(key);
+        if (!selected) {
+            selected = signal(untracked(this.selection).has(key));
+            this.selectedByKey.set(key, selected);
+        }
+        return selected();
+    }
+
+    private computeState(key: K): TreeNodeState {
+        const entry = this.index().get(key);
+        if (!entry) {
+            return 'none';
+        }
+        if (entry.children === undefined) {
+            return this.isKeySelected(key) ? 'all' : 'unknown';
+        }
+        if (entry.children.length === 0) {
+            return this.isKeySelected(key) ? 'all' : 'none';
+        }
+        return this.aggregate(entry.children.map(child => this.stateOf(child)()));
+    }
+
+    /**
+     * Combines the states of sibling nodes into the state of their parent.
+     */
+    private aggregate(states: TreeNodeState[]): TreeNodeState {
+        if (states.length === 0 || states.every(state => state === 'none')) {
+            return 'none';
+        }
+        if (states.every(state => state === 'all')) {
+            return 'all';
+        }
+        return states.some(state => state === 'all' || state === 'indeterminate') ? 'indeterminate' : 'unknown';
+    }
+
+    /**
+     * The leaves and the nodes whose children are not loaded yet, in the subtrees of the given nodes.
+     */
+    private unitsOf(nodes: T[]): T[] {
+        const units: T[] = [];
+        const visit = (nodes: T[]) => {
+            for (const node of nodes) {
+                const children = this.entryOf(node).children;
+                if (children && children.length > 0) {
+                    visit(children);
+                } else {
+                    units.push(node);
+                }
+            }
+        };
+        visit(nodes);
+        return units;
+    }
+
+    private entryOf(node: T): TreeEntry<T> {
+        return this.index().get(this.options.keyOf(node)) ?? { node, children: this.childrenOf(node) };
+    }
+
+    private childrenOf(node: T): T[] | undefined {
+        const loaded = this.loadedChildren.get(this.options.keyOf(node));
+        if (loaded) {
+            return loaded;
+        }
+        const children = this.options.getChildren(node);
+        if (children) {
+            return children;
+        }
+        return this.options.hasChildren?.(node) ? undefined : [];
+    }
+}